@@ -0,0 +1,1271 @@
+// Resx Editor webview. The grid is rendered client-side from data the extension posts in `update`
+// messages, and only the rows inside the viewport exist in the DOM.
+(function() {
+    const vscode = acquireVsCodeApi();
+    const config = JSON.parse(document.getElementById('resxEditorConfig').textContent);
+    const strings = config.strings;
+    const persistedState = vscode.getState() || {};
+
+    const ROW_OVERSCAN = 8;
+
+    let model = {
+        keys: [],
+        languages: [],
+        headers: {},
+        columns: {},
+        unused: new Set(),
+        // Key -> duplicate, orphan and case-collision issues reported for it in any file.
+        keyIssues: new Map(),
+        // Whether cells carry their difference from HEAD, and the keys only HEAD still has.
+        compare: false,
+        removedKeys: new Set(),
+        // Key -> { kind, typeName, preview?, file? } for resources that are not strings.
+        resources: {}
+    };
+
+    let columnWidths = persistedState.columnWidths || {};
+    let fitMode = (typeof persistedState.fitMode === 'boolean') ? persistedState.fitMode : true;
+    let commentMode = persistedState.commentMode || 'off';
+    let stateFilter = persistedState.stateFilter || '';
+    let cultureFilter = persistedState.cultureFilter || '';
+    let searchQuery = persistedState.searchQuery || '';
+    let searchCase = !!persistedState.searchCase;
+    let searchRegex = !!persistedState.searchRegex;
+    // { column: '__key' | <language>, direction: 'asc' | 'desc' } or null for file order.
+    let sort = persistedState.sort || null;
+
+    let rowHeight = 62;
+    let visibleKeys = [];
+    let renderScheduled = false;
+    const rowEls = new Map();
+
+    const container = document.getElementById('gridContainer');
+    const table = document.getElementById('resxTable');
+    const colgroup = table.querySelector('colgroup');
+    const headerRow = table.querySelector('thead tr');
+    const tbody = table.querySelector('tbody');
+
+    const createSpacer = () => {
+        const tr = document.createElement('tr');
+        tr.className = 'spacer';
+        tr.appendChild(document.createElement('td'));
+        return tr;
+    };
+    const topSpacer = createSpacer();
+    const bottomSpacer = createSpacer();
+    tbody.appendChild(topSpacer);
+    tbody.appendChild(bottomSpacer);
+
+    // The type column is only shown for sets that have images, file references or typed values.
+    const hasResources = () => Object.keys(model.resources).length > 0;
+
+    const getColumnKeys = () => {
+        return ['__key']
+            .concat(hasResources() ? ['__type'] : [])
+            .concat(commentMode === 'off' ? [] : ['__comment'])
+            .concat(model.languages)
+            .concat(['__actions']);
+    };
+
+    const getDefaultColumnWidth = (colKey) => {
+        switch (colKey) {
+            case '__key': return 260;
+            case '__type': return 160;
+            case '__comment': return 240;
+            case '__actions': return 150;
+            default: return 320;
+        }
+    };
+
+    const getCell = (language, key) => {
+        const column = model.columns[language];
+        return column ? column[key] : undefined;
+    };
+
+    const persistLayout = () => {
+        vscode.setState({
+            columnWidths,
+            fitMode,
+            commentMode,
+            stateFilter,
+            cultureFilter,
+            searchQuery,
+            searchCase,
+            searchRegex,
+            sort
+        });
+    };
+
+    // ---- Layout: column widths, fit mode and resizing ----
+
+    const applyFitModeClass = () => {
+        document.body.classList.toggle('fit-mode', !!fitMode);
+    };
+
+    const applyColumnWidths = () => {
+        for (const colEl of colgroup.children) {
+            const colKey = colEl.getAttribute('data-col-key');
+            const widthSource = (columnWidths[colKey] !== undefined && columnWidths[colKey] !== null)
+                ? columnWidths[colKey]
+                : getDefaultColumnWidth(colKey);
+            const width = Number(widthSource);
+            if (Number.isFinite(width) && width > 0) {
+                colEl.style.width = String(width) + 'px';
+            }
+        }
+    };
+
+    const fitColumnsToWindow = () => {
+        const containerWidth = container.clientWidth;
+        const flexibleCols = model.languages.concat(commentMode === 'off' ? [] : ['__comment']);
+        const actionWidth = Number((columnWidths.__actions !== undefined && columnWidths.__actions !== null)
+            ? columnWidths.__actions
+            : getDefaultColumnWidth('__actions'));
+        const typeWidth = !hasResources() ? 0 : Number((columnWidths.__type !== undefined && columnWidths.__type !== null)
+            ? columnWidths.__type
+            : getDefaultColumnWidth('__type'));
+        const keyWidth = Math.min(
+            Math.max(
+                180,
+                Number((columnWidths.__key !== undefined && columnWidths.__key !== null)
+                    ? columnWidths.__key
+                    : getDefaultColumnWidth('__key'))
+            ),
+            420
+        );
+
+        // Account for borders/padding/scrollbar rounding so we reliably eliminate horizontal overflow.
+        const overhead = 48;
+        const available = Math.max(0, containerWidth - keyWidth - typeWidth - actionWidth - overhead);
+        const perCol = Math.max(60, Math.floor(available / Math.max(1, flexibleCols.length)));
+
+        const next = Object.assign({}, columnWidths, { __key: keyWidth, __actions: actionWidth });
+        for (const colKey of flexibleCols) {
+            next[colKey] = perCol;
+        }
+
+        columnWidths = next;
+        fitMode = true;
+        applyFitModeClass();
+        applyColumnWidths();
+        persistLayout();
+    };
+
+    const installResizeHandle = (handle) => {
+        handle.addEventListener('mousedown', (e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            const colKey = handle.getAttribute('data-col-key');
+            if (!colKey) return;
+
+            // manual resize disables fit mode
+            fitMode = false;
+            applyFitModeClass();
+
+            const colEl = colgroup.querySelector('col[data-col-key="' + CSS.escape(colKey) + '"]');
+            if (!colEl) {
+                return;
+            }
+
+            const startX = e.clientX;
+            const startWidth = Number.parseFloat(colEl.style.width || '0') || getDefaultColumnWidth(colKey);
+            const minWidth = colKey === '__actions' ? 60 : 80;
+
+            document.body.style.userSelect = 'none';
+            document.body.style.cursor = 'col-resize';
+
+            const onMove = (moveEvent) => {
+                const delta = moveEvent.clientX - startX;
+                const nextWidth = Math.max(minWidth, Math.round(startWidth + delta));
+                columnWidths = Object.assign({}, columnWidths, { [colKey]: nextWidth });
+                colEl.style.width = String(nextWidth) + 'px';
+            };
+
+            const onUp = () => {
+                window.removeEventListener('mousemove', onMove);
+                window.removeEventListener('mouseup', onUp);
+                document.body.style.userSelect = '';
+                document.body.style.cursor = '';
+                persistLayout();
+            };
+
+            window.addEventListener('mousemove', onMove);
+            window.addEventListener('mouseup', onUp);
+        });
+    };
+
+    // ---- Header ----
+
+    const renderHeaderLabel = (th, colKey) => {
+        if (colKey === '__key') {
+            th.textContent = strings.key;
+        } else if (colKey === '__type') {
+            th.textContent = strings.type;
+        } else if (colKey === '__comment') {
+            th.textContent = strings.comment;
+        } else if (colKey === '__actions') {
+            th.textContent = strings.actions;
+        } else if (colKey === 'default') {
+            th.textContent = strings.default;
+        } else {
+            const header = model.headers[colKey] || { label: colKey, percent: 0, tooltip: colKey };
+            const label = document.createElement('span');
+            label.title = header.tooltip;
+            label.textContent = header.label + ' ';
+            const code = document.createElement('span');
+            code.className = 'culture-code';
+            code.textContent = colKey;
+            const completion = document.createElement('span');
+            completion.className = 'completion';
+            completion.textContent = header.percent + '%';
+            label.appendChild(code);
+            label.appendChild(document.createTextNode(' '));
+            label.appendChild(completion);
+            th.appendChild(label);
+
+            const actions = document.createElement('span');
+            actions.className = 'header-actions';
+            const addAction = (action, text, title) => {
+                const button = document.createElement('button');
+                button.className = 'header-btn';
+                button.setAttribute('data-header-action', action);
+                button.textContent = text;
+                button.title = title;
+                actions.appendChild(button);
+            };
+            addAction('translateMissing', '\u2728', strings.translateMissing);
+            if (header.suggestions > 0) {
+                addAction('acceptSuggestions', '\u2714 ' + header.suggestions, strings.acceptAllSuggestions + ' (' + header.suggestions + ')');
+                addAction('rejectSuggestions', '\u2716', strings.rejectAllSuggestions);
+            }
+            th.appendChild(actions);
+        }
+    };
+
+    const renderHeader = () => {
+        headerRow.textContent = '';
+        for (const colKey of getColumnKeys()) {
+            const th = document.createElement('th');
+            th.setAttribute('data-col-key', colKey);
+            renderHeaderLabel(th, colKey);
+            if (colKey === '__key' || model.languages.includes(colKey)) {
+                th.classList.add('sortable');
+                th.title = th.title || strings.sortHint;
+                if (sort && sort.column === colKey) {
+                    const indicator = document.createElement('span');
+                    indicator.className = 'sort-indicator';
+                    indicator.textContent = sort.direction === 'asc' ? '\u25B2' : '\u25BC';
+                    th.appendChild(indicator);
+                }
+                th.addEventListener('click', (e) => {
+                    if (e.target.classList.contains('resize-handle')) return;
+                    const button = e.target.closest('button[data-header-action]');
+                    if (button) {
+                        vscode.postMessage({ type: button.getAttribute('data-header-action'), language: colKey });
+                        return;
+                    }
+                    toggleSort(colKey);
+                });
+            }
+            if (colKey !== '__actions') {
+                th.classList.add('resizable');
+                const handle = document.createElement('div');
+                handle.className = 'resize-handle';
+                handle.setAttribute('data-col-key', colKey);
+                installResizeHandle(handle);
+                th.appendChild(handle);
+            }
+            headerRow.appendChild(th);
+        }
+    };
+
+    // ---- Rows ----
+
+    const createTextarea = (key, language, field, className) => {
+        const textarea = document.createElement('textarea');
+        textarea.className = className;
+        textarea.setAttribute('data-key', key);
+        textarea.setAttribute('data-lang', language);
+        textarea.setAttribute('data-field', field);
+        return textarea;
+    };
+
+    const createButton = (className, action, text) => {
+        const button = document.createElement('button');
+        button.className = className;
+        button.setAttribute('data-action', action);
+        button.textContent = text;
+        return button;
+    };
+
+    /** Machine translation box of a culture cell: the pending suggestion with accept/reject, or a translate button. */
+    const createSuggestion = () => {
+        const box = document.createElement('div');
+        box.className = 'suggestion';
+        const text = document.createElement('span');
+        text.className = 'suggestion-text';
+        text.title = strings.machineTranslated;
+        box.appendChild(text);
+        box.appendChild(createButton('suggestion-btn', 'acceptSuggestion', strings.acceptSuggestion));
+        box.appendChild(createButton('suggestion-btn', 'rejectSuggestion', strings.rejectSuggestion));
+        box.appendChild(createButton('suggestion-btn translate-btn', 'translateCell', strings.translateCell));
+        return box;
+    };
+
+    /** Committed value of a cell that differs from HEAD, with a button to revert to it; shown while comparing. */
+    const createChange = () => {
+        const box = document.createElement('div');
+        box.className = 'cell-change';
+        const text = document.createElement('span');
+        text.className = 'change-previous';
+        box.appendChild(text);
+        box.appendChild(createButton('change-btn', 'revertCell', strings.revertCell));
+        return box;
+    };
+
+    const createRow = (key) => {
+        const tr = document.createElement('tr');
+        tr.className = 'grid-row';
+        tr.dataset.key = key;
+
+        const keyCell = document.createElement('td');
+        keyCell.className = 'key-cell';
+        const keyInput = document.createElement('input');
+        keyInput.type = 'text';
+        keyInput.className = 'key-input';
+        keyInput.setAttribute('data-key', key);
+        keyInput.setAttribute('data-field', 'key');
+        keyCell.appendChild(keyInput);
+        tr.appendChild(keyCell);
+
+        if (hasResources()) {
+            const typeCell = document.createElement('td');
+            typeCell.className = 'type-cell';
+            const typeName = document.createElement('span');
+            typeName.className = 'type-name';
+            typeCell.appendChild(typeName);
+            const preview = document.createElement('img');
+            preview.className = 'resource-preview';
+            preview.alt = '';
+            typeCell.appendChild(preview);
+            const openBtn = createButton('open-file-btn', 'openFileRef', strings.openFile);
+            typeCell.appendChild(openBtn);
+            tr.appendChild(typeCell);
+        }
+
+        if (commentMode !== 'off') {
+            const commentCell = document.createElement('td');
+            commentCell.className = 'comment-cell';
+            const textarea = createTextarea(key, 'default', 'comment', 'comment-input');
+            textarea.placeholder = strings.commentPlaceholder;
+            commentCell.appendChild(textarea);
+            tr.appendChild(commentCell);
+        }
+
+        for (const language of model.languages) {
+            const td = document.createElement('td');
+            td.setAttribute('data-lang', language);
+            td.appendChild(createTextarea(key, language, 'value', 'value-input'));
+            if (language !== 'default') {
+                td.appendChild(createSuggestion());
+            }
+            td.appendChild(createChange());
+            if (language !== 'default' && commentMode === 'all') {
+                const textarea = createTextarea(key, language, 'comment', 'culture-comment');
+                textarea.placeholder = strings.commentPlaceholder;
+                td.appendChild(textarea);
+            }
+            tr.appendChild(td);
+        }
+
+        const actionCell = document.createElement('td');
+        actionCell.className = 'action-cell';
+        const renameBtn = document.createElement('button');
+        renameBtn.className = 'rename-btn';
+        renameBtn.setAttribute('data-action', 'rename');
+        renameBtn.textContent = strings.renameKey;
+        const deleteBtn = document.createElement('button');
+        deleteBtn.className = 'delete-btn';
+        deleteBtn.setAttribute('data-action', 'delete');
+        deleteBtn.textContent = strings.delete;
+        actionCell.appendChild(renameBtn);
+        actionCell.appendChild(document.createTextNode(' '));
+        actionCell.appendChild(deleteBtn);
+        tr.appendChild(actionCell);
+
+        fillRow(tr);
+        return tr;
+    };
+
+    const setFieldValue = (element, value) => {
+        // Never clobber what the user is typing.
+        if (element !== document.activeElement && element.value !== value) {
+            element.value = value;
+        }
+    };
+
+    /** Copies the current model into an existing row's inputs and cell decorations. */
+    const fillRow = (tr) => {
+        const key = tr.dataset.key;
+        const keyCell = tr.querySelector('.key-cell');
+        const unused = model.unused.has(key);
+        const keyIssues = model.keyIssues.get(key) || [];
+        keyCell.classList.toggle('unused', unused);
+        keyCell.classList.toggle('has-error', keyIssues.some((i) => i.severity === 'error'));
+        keyCell.classList.toggle('has-warning', keyIssues.length > 0 && keyIssues.every((i) => i.severity !== 'error'));
+        keyCell.title = (unused ? [strings.unusedKey] : []).concat(keyIssues.map((i) => i.message)).join('\n');
+        // Rows only HEAD still has can be reverted cell by cell, but not edited.
+        const removed = model.removedKeys.has(key);
+        tr.classList.toggle('removed-row', removed);
+        for (const element of tr.querySelectorAll('input, textarea')) {
+            element.readOnly = removed;
+        }
+        for (const element of tr.querySelectorAll('[data-field]')) {
+            const field = element.getAttribute('data-field');
+            if (field === 'key') {
+                setFieldValue(element, key);
+                continue;
+            }
+            const cell = getCell(element.getAttribute('data-lang'), key);
+            setFieldValue(element, cell ? (field === 'value' ? cell.value : cell.comment) : '');
+        }
+
+        const resource = model.resources[key];
+        const typeCell = tr.querySelector('.type-cell');
+        if (typeCell) {
+            typeCell.querySelector('.type-name').textContent = resource ? resource.typeName : '';
+            typeCell.title = resource && resource.file ? resource.file : '';
+            const preview = typeCell.querySelector('.resource-preview');
+            preview.hidden = !(resource && resource.preview);
+            if (resource && resource.preview && preview.getAttribute('src') !== resource.preview) {
+                preview.src = resource.preview;
+            }
+            typeCell.querySelector('.open-file-btn').hidden = !(resource && resource.kind === 'fileRef');
+        }
+
+        for (const td of tr.querySelectorAll('td[data-lang]')) {
+            const cell = getCell(td.getAttribute('data-lang'), key);
+            const state = cell ? cell.state : 'missing';
+            const issues = (cell && cell.issues) || [];
+            td.className = 'value-cell state-' + state
+                + (issues.some((i) => i.severity === 'error') ? ' has-error' : (issues.length > 0 ? ' has-warning' : ''));
+            td.setAttribute('data-state', state);
+            td.title = issues.map((i) => i.message).join('\n');
+            const valueInput = td.querySelector('.value-input');
+            valueInput.placeholder = state === 'missing' ? strings.missingPlaceholder : '';
+            // Images, file references and blobs are shown as a summary; typed values stay editable.
+            const cellResource = cell && cell.resource;
+            td.classList.toggle('non-string', !!cellResource);
+            if (cellResource && !cellResource.editable) {
+                valueInput.readOnly = true;
+            }
+
+            const box = td.querySelector('.suggestion');
+            if (box) {
+                const suggestion = cell && cell.suggestion !== undefined ? cell.suggestion : null;
+                td.classList.toggle('has-suggestion', suggestion !== null);
+                box.querySelector('.suggestion-text').textContent = suggestion !== null ? suggestion : '';
+                box.classList.toggle('pending', suggestion !== null);
+                box.hidden = suggestion === null && (!!cellResource || (state !== 'missing' && state !== 'empty'));
+            }
+
+            const change = cell && cell.change;
+            const changeBox = td.querySelector('.cell-change');
+            if (change) {
+                td.classList.add('change-' + change.kind);
+            }
+            changeBox.classList.toggle('unchanged', !change);
+            const previous = change && change.previous ? change.previous.value : '';
+            changeBox.querySelector('.change-previous').textContent = previous;
+            changeBox.title = change ? strings['change' + change.kind[0].toUpperCase() + change.kind.slice(1)] + (change.previous ? '\n' + previous : '') : '';
+        }
+    };
+
+    const cellMatchesFilter = (state) => {
+        if (stateFilter === 'untranslated') {
+            return state !== 'translated';
+        }
+        return state === stateFilter;
+    };
+
+    const rowMatchesFilter = (key) => {
+        if (!stateFilter) {
+            return true;
+        }
+        if (stateFilter === 'unused') {
+            return model.unused.has(key);
+        }
+        if (stateFilter === 'keyIssues') {
+            return model.keyIssues.has(key);
+        }
+        if (stateFilter === 'changed') {
+            return model.languages.some((language) => {
+                const cell = getCell(language, key);
+                return (!cultureFilter || language === cultureFilter) && cell && cell.change !== undefined;
+            });
+        }
+        if (stateFilter === 'needsReview') {
+            return model.languages.some((language) => {
+                const cell = getCell(language, key);
+                return (!cultureFilter || language === cultureFilter) && cell && cell.suggestion !== undefined;
+            });
+        }
+        for (const language of model.languages) {
+            if (language === 'default' || (cultureFilter && language !== cultureFilter)) continue;
+            const cell = getCell(language, key);
+            // Non-string resources are rarely localized, so they do not count as untranslated.
+            if (cell && cell.resource) continue;
+            if (cellMatchesFilter(cell ? cell.state : 'missing')) {
+                return true;
+            }
+        }
+        return false;
+    };
+
+    /** Returns a predicate for the search box, or null when the query is empty or an invalid regex. */
+    const createSearchMatcher = () => {
+        const searchInput = document.getElementById('searchInput');
+        searchInput.classList.remove('invalid');
+        if (!searchQuery) {
+            return null;
+        }
+        if (searchRegex) {
+            try {
+                const regex = new RegExp(searchQuery, searchCase ? 'u' : 'iu');
+                return (text) => regex.test(text);
+            } catch (err) {
+                searchInput.classList.add('invalid');
+                return null;
+            }
+        }
+        const needle = searchCase ? searchQuery : searchQuery.toLowerCase();
+        return (text) => (searchCase ? text : text.toLowerCase()).includes(needle);
+    };
+
+    const rowMatchesSearch = (matcher, key) => {
+        if (matcher(key)) {
+            return true;
+        }
+        for (const language of model.languages) {
+            const cell = getCell(language, key);
+            if (cell && (matcher(cell.value) || matcher(cell.comment))) {
+                return true;
+            }
+        }
+        return false;
+    };
+
+    const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+    const computeVisibleKeys = () => {
+        const matcher = createSearchMatcher();
+        visibleKeys = model.keys.filter((key) => rowMatchesFilter(key) && (!matcher || rowMatchesSearch(matcher, key)));
+
+        if (sort && (sort.column === '__key' || model.languages.includes(sort.column))) {
+            const sortValue = (key) => {
+                if (sort.column === '__key') return key;
+                const cell = getCell(sort.column, key);
+                return cell ? cell.value : '';
+            };
+            const direction = sort.direction === 'desc' ? -1 : 1;
+            visibleKeys.sort((a, b) => direction * collator.compare(sortValue(a), sortValue(b)));
+        }
+    };
+
+    const refreshRows = () => {
+        computeVisibleKeys();
+        renderRows();
+    };
+
+    // Cycles a column through ascending, descending and file order.
+    const toggleSort = (colKey) => {
+        if (!sort || sort.column !== colKey) {
+            sort = { column: colKey, direction: 'asc' };
+        } else if (sort.direction === 'asc') {
+            sort = { column: colKey, direction: 'desc' };
+        } else {
+            sort = null;
+        }
+        persistLayout();
+        renderHeader();
+        refreshRows();
+    };
+
+    /**
+     * Renders the rows intersecting the viewport. Rows that stay in view are updated in place rather
+     * than recreated, so focus and selection inside them survive scrolling and data updates.
+     */
+    const renderRows = () => {
+        const viewportHeight = container.clientHeight;
+        const scrollTop = container.scrollTop;
+        const total = visibleKeys.length;
+        const start = Math.max(0, Math.floor(scrollTop / rowHeight) - ROW_OVERSCAN);
+        const end = Math.min(total, Math.ceil((scrollTop + viewportHeight) / rowHeight) + ROW_OVERSCAN);
+        const wanted = visibleKeys.slice(start, end);
+        const wantedSet = new Set(wanted);
+
+        for (const [key, tr] of rowEls) {
+            if (!wantedSet.has(key)) {
+                if (tr.contains(document.activeElement)) {
+                    // Commit a pending edit before its input leaves the DOM.
+                    document.activeElement.blur();
+                }
+                tr.remove();
+                rowEls.delete(key);
+            }
+        }
+
+        let cursor = topSpacer.nextSibling;
+        for (const key of wanted) {
+            let tr = rowEls.get(key);
+            if (!tr) {
+                tr = createRow(key);
+                rowEls.set(key, tr);
+                tbody.insertBefore(tr, cursor);
+            } else {
+                if (tr !== cursor) {
+                    tbody.insertBefore(tr, cursor);
+                }
+                fillRow(tr);
+            }
+            cursor = tr.nextSibling;
+        }
+
+        const colSpan = String(getColumnKeys().length);
+        topSpacer.firstChild.colSpan = colSpan;
+        bottomSpacer.firstChild.colSpan = colSpan;
+        topSpacer.style.height = String(start * rowHeight) + 'px';
+        bottomSpacer.style.height = String((total - end) * rowHeight) + 'px';
+        topSpacer.style.display = start > 0 ? '' : 'none';
+        bottomSpacer.style.display = end < total ? '' : 'none';
+
+        // Calibrate the row height from the real layout once rows exist.
+        const firstRow = wanted.length > 0 ? rowEls.get(wanted[0]) : null;
+        if (firstRow) {
+            const measured = firstRow.getBoundingClientRect().height;
+            if (measured > 0 && Math.abs(measured - rowHeight) > 0.5) {
+                rowHeight = measured;
+                scheduleRender();
+            }
+        }
+    };
+
+    const scheduleRender = () => {
+        if (renderScheduled) return;
+        renderScheduled = true;
+        requestAnimationFrame(() => {
+            renderScheduled = false;
+            renderRows();
+        });
+    };
+
+    /** Rebuilds columns, header and rows; needed when the set of columns changes. */
+    const rebuildGrid = () => {
+        colgroup.textContent = '';
+        for (const colKey of getColumnKeys()) {
+            const colEl = document.createElement('col');
+            colEl.setAttribute('data-col-key', colKey);
+            colgroup.appendChild(colEl);
+        }
+        applyColumnWidths();
+        renderHeader();
+
+        for (const tr of rowEls.values()) {
+            tr.remove();
+        }
+        rowEls.clear();
+        computeVisibleKeys();
+        renderRows();
+
+        if (fitMode) {
+            fitColumnsToWindow();
+        }
+    };
+
+    const updateCultureFilterOptions = () => {
+        const select = document.getElementById('cultureFilterSelect');
+        const allOption = select.options[0];
+        select.textContent = '';
+        select.appendChild(allOption);
+        for (const language of model.languages) {
+            if (language === 'default') continue;
+            const option = document.createElement('option');
+            option.value = language;
+            option.textContent = language;
+            select.appendChild(option);
+        }
+        select.value = cultureFilter;
+        // The culture may have been removed since the filter was persisted.
+        cultureFilter = select.value;
+    };
+
+    const applyUpdate = (update) => {
+        const columnsChanged = update.languages.join('\u0000') !== model.languages.join('\u0000')
+            || (Object.keys(update.resources).length > 0) !== hasResources();
+        model.keys = update.keys;
+        model.languages = update.languages;
+        model.headers = update.headers;
+        model.unused = new Set(update.unused);
+        deleteUnusedBtn.hidden = model.unused.size === 0;
+        deleteUnusedBtn.textContent = strings.deleteUnused + ' (' + model.unused.size + ')';
+        model.keyIssues = new Map();
+        for (const issue of update.keyIssues) {
+            if (!model.keyIssues.has(issue.key)) model.keyIssues.set(issue.key, []);
+            model.keyIssues.get(issue.key).push(issue);
+        }
+        renderKeyIssues(update.keyIssues);
+        model.compare = update.compare;
+        model.removedKeys = new Set(update.removedKeys);
+        model.resources = update.resources;
+        document.body.classList.toggle('compare-mode', model.compare);
+        compareBtn.classList.toggle('active', model.compare);
+        if (!model.compare && stateFilter === 'changed') {
+            stateFilterSelect.value = '';
+            stateFilter = '';
+            persistLayout();
+        }
+        for (const language of Object.keys(update.columns)) {
+            model.columns[language] = update.columns[language];
+        }
+        for (const language of Object.keys(model.columns)) {
+            if (!model.languages.includes(language)) {
+                delete model.columns[language];
+            }
+        }
+
+        if (columnsChanged) {
+            updateCultureFilterOptions();
+            updateReplaceCultureOptions();
+            rebuildGrid();
+        } else {
+            renderHeader();
+            refreshRows();
+        }
+    };
+
+    // ---- Editing ----
+
+    tbody.addEventListener('change', (e) => {
+        const element = e.target;
+        const field = element.getAttribute('data-field');
+        const key = element.getAttribute('data-key');
+        if (!field || key === null) return;
+
+        if (field === 'key') {
+            const newKey = element.value.trim();
+            // The extension validates and renames the key in every culture file, then posts an update.
+            if (newKey !== key) {
+                vscode.postMessage({
+                    type: 'renameKey',
+                    oldKey: key,
+                    newKey: newKey
+                });
+            }
+            return;
+        }
+
+        const language = element.getAttribute('data-lang');
+        const cell = getCell(language, key);
+        if (cell) {
+            cell[field] = element.value;
+        }
+        vscode.postMessage(field === 'value'
+            ? { type: 'updateValue', key: key, language: language, value: element.value }
+            : { type: 'updateComment', key: key, language: language, comment: element.value });
+    });
+
+    tbody.addEventListener('keydown', (e) => {
+        const element = e.target;
+        if (!element.classList || !element.classList.contains('key-input')) return;
+        if (e.key === 'Enter') {
+            element.blur();
+        } else if (e.key === 'Escape') {
+            element.value = element.getAttribute('data-key');
+            element.blur();
+        }
+    });
+
+    tbody.addEventListener('click', (e) => {
+        const button = e.target.closest('button[data-action]');
+        if (!button) return;
+        const tr = button.closest('tr');
+        const key = tr.dataset.key;
+        switch (button.getAttribute('data-action')) {
+            case 'rename': {
+                const input = tr.querySelector('.key-input');
+                input.focus();
+                input.select();
+                break;
+            }
+            case 'delete':
+                vscode.postMessage({
+                    type: 'requestDeleteRow',
+                    key: key
+                });
+                break;
+            case 'openFileRef':
+                vscode.postMessage({
+                    type: 'openFileRef',
+                    key: key,
+                    language: 'default'
+                });
+                break;
+            case 'revertCell':
+                vscode.postMessage({
+                    type: 'revertCell',
+                    key: key,
+                    language: button.closest('td').getAttribute('data-lang')
+                });
+                break;
+            case 'translateCell':
+            case 'acceptSuggestion':
+            case 'rejectSuggestion': {
+                const types = { translateCell: 'translateMissing', acceptSuggestion: 'acceptSuggestions', rejectSuggestion: 'rejectSuggestions' };
+                vscode.postMessage({
+                    type: types[button.getAttribute('data-action')],
+                    language: button.closest('td').getAttribute('data-lang'),
+                    keys: [key]
+                });
+                break;
+            }
+        }
+    });
+
+    container.addEventListener('scroll', scheduleRender);
+
+    window.addEventListener('resize', () => {
+        if (fitMode) {
+            fitColumnsToWindow();
+        }
+        scheduleRender();
+    });
+
+    /** Scrolls `key` into view and focuses its default value, clearing a search or filter that hides it. */
+    const revealKey = (key) => {
+        if (!model.keys.includes(key)) {
+            return;
+        }
+        if (!visibleKeys.includes(key)) {
+            searchQuery = '';
+            searchInput.value = '';
+            stateFilter = '';
+            stateFilterSelect.value = '';
+            onSearchChange();
+        }
+        const index = visibleKeys.indexOf(key);
+        container.scrollTop = Math.max(0, index * rowHeight - container.clientHeight / 3);
+        renderRows();
+
+        const tr = rowEls.get(key);
+        if (!tr) {
+            return;
+        }
+        const input = tr.querySelector('td[data-lang="default"] .value-input');
+        if (input) {
+            input.focus();
+        }
+        tr.classList.remove('revealed');
+        // Restart the highlight animation when the same row is revealed twice.
+        void tr.offsetWidth;
+        tr.classList.add('revealed');
+    };
+
+    window.addEventListener('message', (event) => {
+        const message = event.data;
+        switch (message.type) {
+            case 'update':
+                applyUpdate(message);
+                break;
+            case 'replacePreview':
+                renderReplacePreview(message);
+                break;
+            case 'revealKey':
+                revealKey(message.key);
+                break;
+            case 'memoryMatches':
+                renderMemoryMatches(message);
+                break;
+        }
+    });
+
+    // ---- Toolbar ----
+
+    document.getElementById('addRowBtn').addEventListener('click', () => {
+        vscode.postMessage({
+            type: 'requestAddRow'
+        });
+    });
+
+    document.getElementById('addFileResourceBtn').addEventListener('click', () => {
+        vscode.postMessage({
+            type: 'requestAddFileResource'
+        });
+    });
+
+    document.getElementById('fitColumnsBtn').addEventListener('click', () => {
+        fitColumnsToWindow();
+    });
+
+    document.getElementById('addCultureBtn').addEventListener('click', () => {
+        vscode.postMessage({
+            type: 'requestAddCulture'
+        });
+    });
+
+    document.getElementById('removeCultureBtn').addEventListener('click', () => {
+        vscode.postMessage({
+            type: 'requestRemoveCulture'
+        });
+    });
+
+    const deleteUnusedBtn = document.getElementById('deleteUnusedBtn');
+    deleteUnusedBtn.addEventListener('click', () => {
+        vscode.postMessage({
+            type: 'requestDeleteUnused'
+        });
+    });
+
+    const compareBtn = document.getElementById('compareBtn');
+    compareBtn.addEventListener('click', () => {
+        vscode.postMessage({
+            type: 'setCompareMode',
+            enabled: !model.compare
+        });
+    });
+
+    document.getElementById('saveAllBtn').addEventListener('click', () => {
+        vscode.postMessage({
+            type: 'save'
+        });
+    });
+
+    const commentModeSelect = document.getElementById('commentModeSelect');
+    commentModeSelect.value = commentMode;
+    commentModeSelect.addEventListener('change', () => {
+        commentMode = commentModeSelect.value;
+        persistLayout();
+        rebuildGrid();
+    });
+
+    const stateFilterSelect = document.getElementById('stateFilterSelect');
+    const cultureFilterSelect = document.getElementById('cultureFilterSelect');
+    stateFilterSelect.value = stateFilter;
+    const onFilterChange = () => {
+        stateFilter = stateFilterSelect.value;
+        cultureFilter = cultureFilterSelect.value;
+        persistLayout();
+        container.scrollTop = 0;
+        refreshRows();
+    };
+    stateFilterSelect.addEventListener('change', onFilterChange);
+    cultureFilterSelect.addEventListener('change', onFilterChange);
+
+    const searchInput = document.getElementById('searchInput');
+    const matchCaseBtn = document.getElementById('matchCaseBtn');
+    const useRegexBtn = document.getElementById('useRegexBtn');
+    let searchTimer = null;
+    const onSearchChange = () => {
+        matchCaseBtn.classList.toggle('active', searchCase);
+        useRegexBtn.classList.toggle('active', searchRegex);
+        persistLayout();
+        container.scrollTop = 0;
+        refreshRows();
+    };
+    searchInput.value = searchQuery;
+    searchInput.addEventListener('input', () => {
+        clearTimeout(searchTimer);
+        searchTimer = setTimeout(() => {
+            searchQuery = searchInput.value;
+            onSearchChange();
+        }, 150);
+    });
+    matchCaseBtn.classList.toggle('active', searchCase);
+    matchCaseBtn.addEventListener('click', () => {
+        searchCase = !searchCase;
+        onSearchChange();
+    });
+    useRegexBtn.classList.toggle('active', searchRegex);
+    useRegexBtn.addEventListener('click', () => {
+        searchRegex = !searchRegex;
+        onSearchChange();
+    });
+
+    // ---- Find & Replace ----
+
+    const replacePanel = document.getElementById('replacePanel');
+    const findInput = document.getElementById('findInput');
+    const replaceInput = document.getElementById('replaceInput');
+    const replaceMatchCaseBtn = document.getElementById('replaceMatchCaseBtn');
+    const replaceUseRegexBtn = document.getElementById('replaceUseRegexBtn');
+    const replaceScopeSelect = document.getElementById('replaceScopeSelect');
+    const replaceCultures = document.getElementById('replaceCultures');
+    const replaceSummary = document.getElementById('replaceSummary');
+    const replaceResults = document.getElementById('replaceResults');
+    let replaceMatchCase = false;
+    let replaceUseRegex = false;
+    const excludedReplaceCultures = new Set();
+
+    const updateReplaceCultureOptions = () => {
+        replaceCultures.textContent = '';
+        for (const language of model.languages) {
+            const label = document.createElement('label');
+            const checkbox = document.createElement('input');
+            checkbox.type = 'checkbox';
+            checkbox.checked = !excludedReplaceCultures.has(language);
+            checkbox.addEventListener('change', () => {
+                if (checkbox.checked) {
+                    excludedReplaceCultures.delete(language);
+                } else {
+                    excludedReplaceCultures.add(language);
+                }
+            });
+            label.appendChild(checkbox);
+            label.appendChild(document.createTextNode(language === 'default' ? strings.default : language));
+            replaceCultures.appendChild(label);
+        }
+    };
+
+    const getReplaceRequest = (type) => ({
+        type: type,
+        find: findInput.value,
+        replace: replaceInput.value,
+        regex: replaceUseRegex,
+        matchCase: replaceMatchCase,
+        languages: model.languages.filter((language) => !excludedReplaceCultures.has(language)),
+        keys: replaceScopeSelect.value === 'shown' ? visibleKeys.slice() : undefined
+    });
+
+    /** Shows `text` with the changed middle part marked, e.g. "Sign [-in-][+on+] now". */
+    const appendDiff = (parent, before, after) => {
+        let prefix = 0;
+        while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) prefix++;
+        let suffix = 0;
+        while (suffix < before.length - prefix && suffix < after.length - prefix
+            && before[before.length - 1 - suffix] === after[after.length - 1 - suffix]) suffix++;
+        const del = document.createElement('del');
+        del.textContent = before.slice(prefix, before.length - suffix);
+        const ins = document.createElement('ins');
+        ins.textContent = after.slice(prefix, after.length - suffix);
+        parent.appendChild(document.createTextNode(before.slice(0, prefix)));
+        parent.appendChild(del);
+        parent.appendChild(ins);
+        parent.appendChild(document.createTextNode(before.slice(before.length - suffix)));
+    };
+
+    const MAX_PREVIEW_ITEMS = 500;
+
+    const renderReplacePreview = (message) => {
+        replaceResults.textContent = '';
+        replaceSummary.classList.toggle('error', !!message.error);
+        replaceSummary.textContent = message.error || message.summary || '';
+        if (!message.replacements) return;
+
+        const byLanguage = new Map();
+        for (const replacement of message.replacements) {
+            if (!byLanguage.has(replacement.language)) byLanguage.set(replacement.language, []);
+            byLanguage.get(replacement.language).push(replacement);
+        }
+        let shown = 0;
+        for (const [language, items] of byLanguage) {
+            const heading = document.createElement('h4');
+            heading.textContent = (language === 'default' ? strings.default : language) + ' (' + items.length + ')';
+            replaceResults.appendChild(heading);
+            for (const item of items) {
+                if (shown++ >= MAX_PREVIEW_ITEMS) return;
+                const div = document.createElement('div');
+                div.className = 'replace-item';
+                const key = document.createElement('strong');
+                key.textContent = item.key + ': ';
+                div.appendChild(key);
+                appendDiff(div, item.before, item.after);
+                replaceResults.appendChild(div);
+            }
+        }
+    };
+
+    document.getElementById('findReplaceBtn').addEventListener('click', () => {
+        replacePanel.hidden = !replacePanel.hidden;
+        if (!replacePanel.hidden) {
+            updateReplaceCultureOptions();
+            findInput.focus();
+        }
+        scheduleRender();
+    });
+    replaceMatchCaseBtn.addEventListener('click', () => {
+        replaceMatchCase = !replaceMatchCase;
+        replaceMatchCaseBtn.classList.toggle('active', replaceMatchCase);
+    });
+    replaceUseRegexBtn.addEventListener('click', () => {
+        replaceUseRegex = !replaceUseRegex;
+        replaceUseRegexBtn.classList.toggle('active', replaceUseRegex);
+    });
+    document.getElementById('replacePreviewBtn').addEventListener('click', () => {
+        vscode.postMessage(getReplaceRequest('previewReplace'));
+    });
+    document.getElementById('replaceAllBtn').addEventListener('click', () => {
+        vscode.postMessage(getReplaceRequest('applyReplace'));
+    });
+
+    // ---- Translation memory ----
+
+    // Translations of similar default values elsewhere in the workspace, offered under the focused culture cell.
+    const memoryPanel = document.getElementById('memoryPanel');
+    let memoryInput = null;
+    let shownMatches = [];
+
+    const hideMemory = () => {
+        memoryPanel.hidden = true;
+        memoryInput = null;
+    };
+
+    const renderMemoryMatches = (message) => {
+        const input = memoryInput;
+        if (!input || input !== document.activeElement || input.getAttribute('data-key') !== message.key
+            || input.getAttribute('data-lang') !== message.language || message.matches.length === 0) {
+            memoryPanel.hidden = true;
+            return;
+        }
+        shownMatches = message.matches;
+        memoryPanel.textContent = '';
+        const heading = document.createElement('div');
+        heading.className = 'memory-heading';
+        heading.textContent = strings.translationMemory;
+        memoryPanel.appendChild(heading);
+        shownMatches.forEach((match, index) => {
+            const item = document.createElement('div');
+            item.className = 'memory-match';
+            item.setAttribute('data-index', String(index));
+            const target = document.createElement('div');
+            target.className = 'memory-target';
+            target.textContent = match.target;
+            const detail = document.createElement('div');
+            detail.className = 'memory-detail';
+            detail.textContent = match.similarity + '% \u00B7 ' + match.source + ' \u00B7 ' + match.where;
+            item.appendChild(target);
+            item.appendChild(detail);
+            memoryPanel.appendChild(item);
+        });
+        const rect = input.getBoundingClientRect();
+        memoryPanel.style.left = rect.left + 'px';
+        memoryPanel.style.top = (rect.bottom + 2) + 'px';
+        memoryPanel.style.width = Math.max(rect.width, 280) + 'px';
+        memoryPanel.hidden = false;
+    };
+
+    tbody.addEventListener('focusin', (e) => {
+        const element = e.target;
+        const language = element.getAttribute('data-lang');
+        if (element.getAttribute('data-field') !== 'value' || !language || language === 'default' || element.readOnly) {
+            hideMemory();
+            return;
+        }
+        memoryInput = element;
+        vscode.postMessage({
+            type: 'lookupMemory',
+            key: element.getAttribute('data-key'),
+            language: language
+        });
+    });
+    tbody.addEventListener('focusout', hideMemory);
+    container.addEventListener('scroll', hideMemory);
+    tbody.addEventListener('keydown', (e) => {
+        if (e.key === 'Escape') hideMemory();
+    });
+
+    // Mousedown keeps the focus in the cell, so picking a match commits it like typing would.
+    memoryPanel.addEventListener('mousedown', (e) => {
+        e.preventDefault();
+        const item = e.target.closest('.memory-match');
+        const input = memoryInput;
+        if (!item || !input) return;
+        input.value = shownMatches[Number(item.getAttribute('data-index'))].target;
+        input.dispatchEvent(new Event('change', { bubbles: true }));
+        hideMemory();
+    });
+
+    // ---- Key problems ----
+
+    const keyIssuesBtn = document.getElementById('keyIssuesBtn');
+    const keyIssuesPanel = document.getElementById('keyIssuesPanel');
+    let shownKeyIssues = [];
+    const fixLabels = {
+        removeDuplicates: strings.fixRemoveDuplicates,
+        addToDefault: strings.fixAddToDefault,
+        deleteFromCulture: strings.fixDeleteFromCulture,
+        deleteKey: strings.delete
+    };
+
+    const renderKeyIssues = (issues) => {
+        shownKeyIssues = issues;
+        keyIssuesBtn.hidden = issues.length === 0;
+        keyIssuesBtn.textContent = strings.keyIssues + ' (' + issues.length + ')';
+        if (issues.length === 0) {
+            keyIssuesPanel.hidden = true;
+        }
+        keyIssuesPanel.textContent = '';
+        issues.forEach((issue, index) => {
+            const div = document.createElement('div');
+            div.className = 'key-issue ' + issue.severity;
+            const keyLink = document.createElement('a');
+            keyLink.href = '#';
+            keyLink.setAttribute('data-reveal', issue.key);
+            keyLink.textContent = issue.key;
+            const language = document.createElement('span');
+            language.className = 'culture-code';
+            language.textContent = issue.language === 'default' ? strings.default : issue.language;
+            const message = document.createElement('span');
+            message.className = 'key-issue-message';
+            message.textContent = issue.message;
+            div.appendChild(keyLink);
+            div.appendChild(language);
+            div.appendChild(message);
+            for (const fix of issue.fixes) {
+                const button = document.createElement('button');
+                button.setAttribute('data-issue', String(index));
+                button.setAttribute('data-fix', fix);
+                button.textContent = fix === 'renameToMatch'
+                    ? strings.fixRenameToMatch.split('{key}').join(issue.other)
+                    : fixLabels[fix];
+                div.appendChild(button);
+            }
+            keyIssuesPanel.appendChild(div);
+        });
+    };
+
+    keyIssuesBtn.addEventListener('click', () => {
+        keyIssuesPanel.hidden = !keyIssuesPanel.hidden;
+        scheduleRender();
+    });
+    keyIssuesPanel.addEventListener('click', (e) => {
+        const link = e.target.closest('a[data-reveal]');
+        if (link) {
+            e.preventDefault();
+            revealKey(link.getAttribute('data-reveal'));
+            return;
+        }
+        const button = e.target.closest('button[data-fix]');
+        if (!button) return;
+        const issue = shownKeyIssues[Number(button.getAttribute('data-issue'))];
+        const fix = button.getAttribute('data-fix');
+        // Deleting a key from every file asks for confirmation like the row's Delete button.
+        vscode.postMessage(fix === 'deleteKey'
+            ? { type: 'requestDeleteRow', key: issue.key }
+            : { type: 'fixKeyIssue', fix: fix, key: issue.key, language: issue.language, other: issue.other });
+    });
+
+    const uiLanguageSelect = document.getElementById('uiLanguageSelect');
+    uiLanguageSelect.value = config.uiLanguageSetting;
+    uiLanguageSelect.addEventListener('change', () => {
+        vscode.postMessage({
+            type: 'setUiLanguage',
+            value: uiLanguageSelect.value
+        });
+    });
+
+    // Initial layout; data arrives once the extension answers `ready`.
+    applyFitModeClass();
+    rebuildGrid();
+    vscode.postMessage({ type: 'ready' });
+
+    console.log('Resx Editor initialized');
+})();
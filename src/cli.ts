@@ -0,0 +1,306 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import { ResxDocument, compareResourceNames, isStringEntry } from './resxFile';
+import { splitResxFileName } from './cultures';
+import { findCultureFiles, loadResxSet } from './resxSet';
+import { getCellState, getCultureCompletion } from './translationStatus';
+import { ValidationSeverity, validateResxDocument } from './placeholderValidation';
+import { checkKeyConsistency } from './keyConsistency';
+
+const USAGE = `Usage: resx-editor <command> [options] <path...>
+
+Paths are .resx files or directories searched recursively (bin, obj, node_modules and .git are skipped).
+A culture file stands for its whole set.
+
+Commands:
+  lint      Report missing translations, placeholder mismatches, duplicate, orphan and case-colliding keys
+  report    Print the translation completion of every culture
+  sort      Sort the <data> nodes of every file by key
+
+Options:
+  --json                    Print machine-readable JSON
+  --max-warnings <n>        lint: also fail when there are more than n warnings
+  --min-completion <n>      report: fail when a culture is less than n percent translated
+  --check                   sort: list unsorted files and fail instead of writing them
+
+Exit codes: 0 success, 1 problems found, 2 invalid arguments or unreadable files.`;
+
+const SKIPPED_DIRECTORIES = new Set(['bin', 'obj', 'node_modules', '.git']);
+
+interface Options {
+    command: string;
+    paths: string[];
+    json: boolean;
+    check: boolean;
+    maxWarnings?: number;
+    minCompletion?: number;
+}
+
+interface Problem {
+    file: string;
+    /** 1-based line of the `<data>` node, when the key exists in the file. */
+    line?: number;
+    key: string;
+    language: string;
+    kind: string;
+    severity: ValidationSeverity;
+    message: string;
+}
+
+class UsageError extends Error {}
+
+function parseArguments(args: string[]): Options {
+    const options: Options = { command: args[0] ?? '', paths: [], json: false, check: false };
+    const readNumber = (flag: string, value: string | undefined): number => {
+        const number = Number(value);
+        if (value === undefined || !Number.isFinite(number) || number < 0) {
+            throw new UsageError(`${flag} expects a non-negative number`);
+        }
+        return number;
+    };
+
+    for (let i = 1; i < args.length; i++) {
+        switch (args[i]) {
+            case '--json':
+                options.json = true;
+                break;
+            case '--check':
+                options.check = true;
+                break;
+            case '--max-warnings':
+                options.maxWarnings = readNumber(args[i], args[++i]);
+                break;
+            case '--min-completion':
+                options.minCompletion = readNumber(args[i], args[++i]);
+                break;
+            default:
+                if (args[i].startsWith('--')) {
+                    throw new UsageError(`Unknown option ${args[i]}`);
+                }
+                options.paths.push(args[i]);
+        }
+    }
+    if (!['lint', 'report', 'sort'].includes(options.command)) {
+        throw new UsageError(options.command ? `Unknown command ${options.command}` : 'Missing command');
+    }
+    if (options.paths.length === 0) {
+        throw new UsageError('Missing path');
+    }
+    return options;
+}
+
+/** Neutral .resx files for the given paths; culture files resolve to the neutral file next to them. */
+function findBaseFiles(paths: string[]): string[] {
+    const found = new Set<string>();
+    const visit = (target: string, explicit: boolean) => {
+        const stat = fs.statSync(target);
+        if (stat.isDirectory()) {
+            if (explicit || !SKIPPED_DIRECTORIES.has(path.basename(target))) {
+                for (const entry of fs.readdirSync(target).sort()) {
+                    visit(path.join(target, entry), false);
+                }
+            }
+            return;
+        }
+        const parts = splitResxFileName(path.basename(target));
+        if (!parts) {
+            if (explicit) {
+                throw new UsageError(`${target} is not a .resx file`);
+            }
+            return;
+        }
+        const basePath = path.join(path.dirname(target), `${parts.baseName}.resx`);
+        // Culture files found while walking a directory are covered by their neutral file.
+        if (!parts.culture) {
+            found.add(basePath);
+        } else if (explicit) {
+            if (!fs.existsSync(basePath)) {
+                throw new UsageError(`${target} has no neutral file ${path.basename(basePath)}`);
+            }
+            found.add(basePath);
+        }
+    };
+
+    for (const target of paths) {
+        visit(path.resolve(target), true);
+    }
+    return [...found];
+}
+
+function getFilePath(basePath: string, language: string): string {
+    return language === 'default'
+        ? basePath
+        : findCultureFiles(basePath).find(c => c.language === language)?.path ?? basePath;
+}
+
+function lineAt(text: string, offset: number): number {
+    let line = 1;
+    for (let i = text.indexOf('\n'); i >= 0 && i < offset; i = text.indexOf('\n', i + 1)) {
+        line++;
+    }
+    return line;
+}
+
+/** Every problem in one set, with the same checks the editor shows as diagnostics plus untranslated keys. */
+function lintSet(basePath: string, resxData: ResxDocument): Problem[] {
+    const problems: Problem[] = [];
+    const defaultFile = resxData['default'];
+    const add = (problem: Omit<Problem, 'file' | 'line'>, offset?: number) => {
+        const file = resxData[problem.language];
+        problems.push({
+            file: getFilePath(basePath, problem.language),
+            line: offset === undefined ? undefined : lineAt(file.toString(), offset),
+            ...problem,
+        });
+    };
+
+    for (const [language, file] of Object.entries(resxData)) {
+        if (language === 'default') {
+            continue;
+        }
+        for (const entry of defaultFile.entries) {
+            if (!isStringEntry(entry) || entry !== defaultFile.get(entry.name)) {
+                continue;
+            }
+            const state = getCellState(entry, file.get(entry.name));
+            if (state === 'missing' || state === 'empty') {
+                add({
+                    key: entry.name,
+                    language,
+                    kind: 'missingTranslation',
+                    severity: 'error',
+                    message: `"${entry.name}" (${language}): ${state === 'missing' ? 'missing translation' : 'empty translation'}.`,
+                }, file.getRange(entry.name)?.start);
+            }
+        }
+    }
+    for (const issue of validateResxDocument(resxData)) {
+        add(issue, resxData[issue.language].getValueRange(issue.key)?.start);
+    }
+    for (const { key, language, kind, severity, message } of checkKeyConsistency(resxData)) {
+        add({ key, language, kind, severity, message }, resxData[language].getRanges(key)[0]?.start);
+    }
+    return problems;
+}
+
+async function lint(basePaths: string[], options: Options): Promise<number> {
+    const problems: Problem[] = [];
+    for (const basePath of basePaths) {
+        problems.push(...lintSet(basePath, await loadResxSet(basePath)));
+    }
+    const errorCount = problems.filter(p => p.severity === 'error').length;
+    const warningCount = problems.length - errorCount;
+
+    if (options.json) {
+        console.log(JSON.stringify({ files: basePaths, problems, errorCount, warningCount }, null, 2));
+    } else {
+        const byFile = new Map<string, Problem[]>();
+        for (const problem of problems) {
+            byFile.set(problem.file, [...(byFile.get(problem.file) ?? []), problem]);
+        }
+        for (const [file, fileProblems] of byFile) {
+            console.log(path.relative(process.cwd(), file));
+            for (const problem of fileProblems) {
+                console.log(`  ${String(problem.line ?? '-').padStart(5)}  ${problem.severity.padEnd(7)}  ${problem.message}  ${problem.kind}`);
+            }
+            console.log('');
+        }
+        console.log(`${problems.length} problems (${errorCount} errors, ${warningCount} warnings) in ${basePaths.length} resx sets`);
+    }
+
+    return errorCount > 0 || (options.maxWarnings !== undefined && warningCount > options.maxWarnings) ? 1 : 0;
+}
+
+async function report(basePaths: string[], options: Options): Promise<number> {
+    const sets = [];
+    let failed = false;
+    for (const basePath of basePaths) {
+        const resxData = await loadResxSet(basePath);
+        const defaultFile = resxData['default'];
+        const cultures = Object.keys(resxData).filter(language => language !== 'default').map(language => {
+            const states = defaultFile.keys().map(key => getCellState(defaultFile.get(key), resxData[language].get(key)));
+            const completion = getCultureCompletion(resxData, language);
+            if (options.minCompletion !== undefined && completion.percent < options.minCompletion) {
+                failed = true;
+            }
+            return {
+                language,
+                file: getFilePath(basePath, language),
+                ...completion,
+                missing: states.filter(state => state === 'missing').length,
+                empty: states.filter(state => state === 'empty').length,
+                same: states.filter(state => state === 'same').length,
+            };
+        });
+        sets.push({ file: basePath, keys: defaultFile.keys().length, cultures });
+    }
+
+    if (options.json) {
+        console.log(JSON.stringify({ sets }, null, 2));
+    } else {
+        for (const set of sets) {
+            console.log(`${path.relative(process.cwd(), set.file)} (${set.keys} keys)`);
+            for (const culture of set.cultures) {
+                console.log(`  ${culture.language.padEnd(12)} ${String(culture.percent).padStart(3)}%  ${culture.translated}/${culture.total} translated, ${culture.missing} missing, ${culture.empty} empty, ${culture.same} same as default`);
+            }
+        }
+    }
+    return failed ? 1 : 0;
+}
+
+async function sort(basePaths: string[], options: Options): Promise<number> {
+    const changed: string[] = [];
+    for (const basePath of basePaths) {
+        const resxData = await loadResxSet(basePath);
+        for (const [language, file] of Object.entries(resxData)) {
+            if (!file.sort((a, b) => compareResourceNames(a.name, b.name))) {
+                continue;
+            }
+            const filePath = getFilePath(basePath, language);
+            changed.push(filePath);
+            if (!options.check) {
+                await fs.promises.writeFile(filePath, file.toString(), 'utf-8');
+            }
+        }
+    }
+
+    if (options.json) {
+        console.log(JSON.stringify({ check: options.check, files: changed }, null, 2));
+    } else {
+        for (const file of changed) {
+            console.log(`${options.check ? 'not sorted' : 'sorted'}: ${path.relative(process.cwd(), file)}`);
+        }
+    }
+    return options.check && changed.length > 0 ? 1 : 0;
+}
+
+async function main(args: string[]): Promise<number> {
+    if (args.length === 0 || args.includes('--help') || args.includes('-h')) {
+        console.log(USAGE);
+        return args.length === 0 ? 2 : 0;
+    }
+
+    try {
+        const options = parseArguments(args);
+        const basePaths = findBaseFiles(options.paths);
+        switch (options.command) {
+            case 'lint':
+                return await lint(basePaths, options);
+            case 'report':
+                return await report(basePaths, options);
+            default:
+                return await sort(basePaths, options);
+        }
+    } catch (error) {
+        console.error(`resx-editor: ${error instanceof Error ? error.message : error}`);
+        if (error instanceof UsageError) {
+            console.error(`\n${USAGE}`);
+        }
+        return 2;
+    }
+}
+
+main(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+});
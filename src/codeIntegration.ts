@@ -0,0 +1,175 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ResourceIndex, ResxSetInfo } from './resourceIndex';
+import { ResourceReference, findLocalizerTypes, findReferenceAt, getLocalizerCompletionContext } from './codeReferences';
+import { isStringEntry } from './resxFile';
+
+const CODE_SELECTOR: vscode.DocumentSelector = [
+    { language: 'csharp' },
+    { language: 'razor' },
+    { language: 'aspnetcorerazor' },
+];
+
+export interface CodeIntegrationStrings {
+    openInResxEditor: string;
+    culture: string;
+    defaultCulture: string;
+    value: string;
+    missing: string;
+}
+
+/** A key found in one resx set, with every culture's value. */
+interface ResolvedKey {
+    set: ResxSetInfo;
+    key: string;
+    values: [string, string | undefined][];
+}
+
+function escapeMarkdown(text: string): string {
+    return text.replace(/[\\`*_{}[\]()#+\-.!|<>]/g, '\\$&').replace(/\r?\n/g, ' ⏎ ');
+}
+
+function offsetToPosition(text: string, offset: number): vscode.Position {
+    const before = text.slice(0, offset);
+    const line = before.split('\n').length - 1;
+    return new vscode.Position(line, offset - (before.lastIndexOf('\n') + 1));
+}
+
+/**
+ * Hover, go-to-definition and completion for resource keys referenced from C# and Razor.
+ * `reveal` opens the Resx Editor of a set at the given key.
+ */
+export class CodeIntegration implements vscode.HoverProvider, vscode.DefinitionProvider, vscode.CompletionItemProvider {
+    public static register(
+        index: ResourceIndex,
+        reveal: (uri: vscode.Uri, key: string) => void,
+        strings: () => CodeIntegrationStrings
+    ): vscode.Disposable {
+        const integration = new CodeIntegration(index, reveal, strings);
+        return vscode.Disposable.from(
+            vscode.languages.registerHoverProvider(CODE_SELECTOR, integration),
+            vscode.languages.registerDefinitionProvider(CODE_SELECTOR, integration),
+            vscode.languages.registerCompletionItemProvider(CODE_SELECTOR, integration, '"')
+        );
+    }
+
+    private constructor(
+        private readonly index: ResourceIndex,
+        private readonly reveal: (uri: vscode.Uri, key: string) => void,
+        private readonly strings: () => CodeIntegrationStrings
+    ) {}
+
+    public async provideHover(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Hover | undefined> {
+        const found = await this.resolveAt(document, position);
+        if (!found) {
+            return undefined;
+        }
+        const { reference, resolved } = found;
+        const s = this.strings();
+        const markdown = new vscode.MarkdownString();
+        markdown.isTrusted = { enabledCommands: ['resxEditor.revealKey'] };
+
+        for (const { set, key, values } of resolved) {
+            const args = encodeURIComponent(JSON.stringify([set.uri.toString(), key]));
+            markdown.appendMarkdown(`**${escapeMarkdown(set.className)}.${escapeMarkdown(key)}** — ${escapeMarkdown(vscode.workspace.asRelativePath(set.uri))}\n\n`);
+            markdown.appendMarkdown(`| ${s.culture} | ${s.value} |\n|---|---|\n`);
+            for (const [culture, value] of values) {
+                markdown.appendMarkdown(`| ${culture === 'default' ? s.defaultCulture : escapeMarkdown(culture)} | ${value === undefined ? `*${s.missing}*` : escapeMarkdown(value)} |\n`);
+            }
+            markdown.appendMarkdown(`\n[${s.openInResxEditor}](command:resxEditor.revealKey?${args})\n\n`);
+        }
+
+        return new vscode.Hover(markdown, new vscode.Range(position.line, reference.start, position.line, reference.end));
+    }
+
+    /**
+     * Points at the `<data>` node; the .resx opens in the Resx Editor, which then selects the key's row. The reveal
+     * only happens when that editor opens or comes to the front, so Ctrl+hover previews leave the grid alone.
+     */
+    public async provideDefinition(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Location[] | undefined> {
+        const found = await this.resolveAt(document, position);
+        if (!found) {
+            return undefined;
+        }
+
+        const locations: vscode.Location[] = [];
+        for (const { set, key } of found.resolved) {
+            const file = await this.index.load(set.uri);
+            const range = file?.getRange(key);
+            const text = file?.toString() ?? '';
+            locations.push(new vscode.Location(
+                set.uri,
+                range ? new vscode.Range(offsetToPosition(text, range.start), offsetToPosition(text, range.end)) : new vscode.Position(0, 0)
+            ));
+        }
+        // With several sets, VS Code lets the user choose, so there is no single row to reveal.
+        if (found.resolved.length === 1) {
+            this.reveal(found.resolved[0].set.uri, found.resolved[0].key);
+        }
+        return locations;
+    }
+
+    public async provideCompletionItems(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.CompletionItem[] | undefined> {
+        const linePrefix = document.lineAt(position.line).text.slice(0, position.character);
+        const context = getLocalizerCompletionContext(linePrefix, findLocalizerTypes(document.getText()));
+        if (!context) {
+            return undefined;
+        }
+
+        const matching = context.className ? await this.index.findSetsByClassName(context.className) : [];
+        const sets = matching.length > 0 ? matching : await this.index.getSets();
+        const range = new vscode.Range(position.line, position.character - context.typed.length, position.line, position.character);
+        const items = new Map<string, vscode.CompletionItem>();
+        for (const set of sets) {
+            const file = await this.index.load(set.uri);
+            for (const entry of file?.entries ?? []) {
+                if (!isStringEntry(entry) || items.has(entry.name)) {
+                    continue;
+                }
+                const item = new vscode.CompletionItem(entry.name, vscode.CompletionItemKind.Constant);
+                item.detail = entry.value.replace(/\r?\n/g, ' ⏎ ');
+                item.documentation = `${set.className} — ${path.basename(set.uri.fsPath)}`;
+                item.range = range;
+                items.set(entry.name, item);
+            }
+        }
+        return [...items.values()];
+    }
+
+    /** The reference under `position` and the sets that define its key. */
+    private async resolveAt(
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): Promise<{ reference: ResourceReference; resolved: ResolvedKey[] } | undefined> {
+        const sets = await this.index.getSets();
+        if (sets.length === 0) {
+            return undefined;
+        }
+        const classNames = new Set(sets.map(set => set.className));
+        const reference = findReferenceAt(
+            document.lineAt(position.line).text,
+            position.character,
+            findLocalizerTypes(document.getText()),
+            className => classNames.has(className)
+        );
+        if (!reference) {
+            return undefined;
+        }
+
+        const matching = reference.className ? await this.index.findSetsByClassName(reference.className) : [];
+        const candidates = matching.length > 0 ? matching : sets;
+        const resolved: ResolvedKey[] = [];
+        for (const set of candidates) {
+            const resxData = await this.index.loadSet(set);
+            if (!Object.values(resxData).some(file => file.has(reference.key))) {
+                continue;
+            }
+            resolved.push({
+                set,
+                key: reference.key,
+                values: Object.entries(resxData).map(([culture, file]) => [culture, file.get(reference.key)?.value]),
+            });
+        }
+        return resolved.length > 0 ? { reference, resolved } : undefined;
+    }
+}
@@ -0,0 +1,138 @@
+/**
+ * Finds resource key references in C#, Razor and XAML source: `Messages.WelcomeMessage` through the
+ * generated class (also inside `{x:Static res:Messages.WelcomeMessage}`), `_localizer["WelcomeMessage"]`
+ * through `IStringLocalizer`/`IHtmlLocalizer`, and `ResourceManager.GetString("WelcomeMessage")`. Works on
+ * plain text so it has no dependency on a C# language server.
+ */
+
+export interface ResourceReference {
+    kind: 'member' | 'localizer' | 'resourceManager';
+    /** Class that owns the key: the generated class name, or the localizer's type argument when known. */
+    className?: string;
+    key: string;
+    /** Offsets of the key within the line. */
+    start: number;
+    end: number;
+}
+
+// The key is matched in a lookahead so `Resources.Messages.Welcome` also yields `Messages.Welcome`.
+const MEMBER_ACCESS = /\b([A-Za-z_]\w*)\s*\.\s*(?=([A-Za-z_]\w*)\b)/g;
+const LOCALIZER_INDEXER = /\b([A-Za-z_]\w*)\s*\[\s*"((?:[^"\\\r\n]|\\.)*)"/g;
+const RESOURCE_MANAGER_CALL = /\.Get(?:String|Object|Stream)\s*\(\s*"((?:[^"\\\r\n]|\\.)*)"/g;
+const LOCALIZER_DECLARATION = /\bI(?:String|Html)Localizer\s*<\s*(?:global::)?([\w.]+)\s*>\s*\??\s+@?([A-Za-z_]\w*)/g;
+
+/**
+ * Maps localizer variables to the resource class they were declared with, e.g. `_localizer` to `Messages`
+ * for `IStringLocalizer<Messages> _localizer` or `@inject IStringLocalizer<Messages> L`.
+ */
+export function findLocalizerTypes(text: string): Map<string, string> {
+    const types = new Map<string, string>();
+    for (const match of text.matchAll(LOCALIZER_DECLARATION)) {
+        types.set(match[2], match[1].split('.').pop()!);
+    }
+    return types;
+}
+
+/** Whether `variable` is used as a localizer: declared as one, or named like one. */
+function isLocalizer(variable: string, localizerTypes: Map<string, string>): boolean {
+    return localizerTypes.has(variable) || /localizer$/i.test(variable);
+}
+
+function unescapeCSharpString(text: string): string {
+    return text.replace(/\\(.)/g, (_match, ch: string) => {
+        switch (ch) {
+            case 'n': return '\n';
+            case 't': return '\t';
+            case 'r': return '\r';
+            default: return ch;
+        }
+    });
+}
+
+/**
+ * The reference whose key spans `character` on `line`. Member accesses are only reported when
+ * `isResourceClass` accepts the class name, so `Console.WriteLine` is not mistaken for a resource.
+ */
+export function findReferenceAt(
+    line: string,
+    character: number,
+    localizerTypes: Map<string, string>,
+    isResourceClass: (className: string) => boolean
+): ResourceReference | undefined {
+    for (const match of line.matchAll(LOCALIZER_INDEXER)) {
+        const start = match.index! + match[0].length - match[2].length - 1;
+        const end = start + match[2].length;
+        if (character >= start - 1 && character <= end + 1 && isLocalizer(match[1], localizerTypes)) {
+            return { kind: 'localizer', className: localizerTypes.get(match[1]), key: unescapeCSharpString(match[2]), start, end };
+        }
+    }
+    for (const match of line.matchAll(RESOURCE_MANAGER_CALL)) {
+        const start = match.index! + match[0].length - match[1].length - 1;
+        const end = start + match[1].length;
+        if (character >= start - 1 && character <= end + 1) {
+            return { kind: 'resourceManager', key: unescapeCSharpString(match[1]), start, end };
+        }
+    }
+    for (const match of line.matchAll(MEMBER_ACCESS)) {
+        const start = match.index! + match[0].length;
+        const end = start + match[2].length;
+        if (character >= start && character <= end && isResourceClass(match[1])) {
+            return { kind: 'member', className: match[1], key: match[2], start, end };
+        }
+    }
+    return undefined;
+}
+
+/**
+ * When `linePrefix` ends inside the string of a localizer indexer (`_localizer["Wel`), returns the
+ * localizer's resource class (if declared) and the part of the key typed so far.
+ */
+export function getLocalizerCompletionContext(
+    linePrefix: string,
+    localizerTypes: Map<string, string>
+): { className?: string; typed: string } | undefined {
+    const match = linePrefix.match(/\b([A-Za-z_]\w*)\s*\[\s*"((?:[^"\\]|\\.)*)$/);
+    if (!match || !isLocalizer(match[1], localizerTypes)) {
+        return undefined;
+    }
+    return { className: localizerTypes.get(match[1]), typed: match[2] };
+}
+
+export interface LocatedReference extends ResourceReference {
+    line: number;
+}
+
+/** Every resource reference in `text`, with the same rules as {@link findReferenceAt}. */
+export function findAllReferences(
+    text: string,
+    localizerTypes: Map<string, string>,
+    isResourceClass: (className: string) => boolean
+): LocatedReference[] {
+    const references: LocatedReference[] = [];
+    text.split(/\r?\n/).forEach((line, lineNumber) => {
+        for (const match of line.matchAll(LOCALIZER_INDEXER)) {
+            if (isLocalizer(match[1], localizerTypes)) {
+                const start = match.index! + match[0].length - match[2].length - 1;
+                references.push({
+                    kind: 'localizer',
+                    className: localizerTypes.get(match[1]),
+                    key: unescapeCSharpString(match[2]),
+                    line: lineNumber,
+                    start,
+                    end: start + match[2].length,
+                });
+            }
+        }
+        for (const match of line.matchAll(RESOURCE_MANAGER_CALL)) {
+            const start = match.index! + match[0].length - match[1].length - 1;
+            references.push({ kind: 'resourceManager', key: unescapeCSharpString(match[1]), line: lineNumber, start, end: start + match[1].length });
+        }
+        for (const match of line.matchAll(MEMBER_ACCESS)) {
+            if (isResourceClass(match[1])) {
+                const start = match.index! + match[0].length;
+                references.push({ kind: 'member', className: match[1], key: match[2], line: lineNumber, start, end: start + match[2].length });
+            }
+        }
+    });
+    return references;
+}
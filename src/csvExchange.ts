@@ -0,0 +1,258 @@
+import { ResxDocument, isStringEntry } from './resxFile';
+
+const KEY_COLUMN = 'key';
+const COMMENT_COLUMN = 'comment';
+
+/** A parsed spreadsheet: `languages` are the culture columns in file order, `rows` hold one record per key. */
+export interface CsvTable {
+    languages: string[];
+    hasComment: boolean;
+    rows: CsvRow[];
+}
+
+export interface CsvRow {
+    key: string;
+    comment?: string;
+    values: Record<string, string>;
+}
+
+export type CsvChangeKind = 'added' | 'changed' | 'removed';
+
+/**
+ * One difference between the spreadsheet and the resx set. `language` is a culture, or `'comment'` for the
+ * default comment; removals are per key and have neither `language` nor `after`.
+ */
+export interface CsvChange {
+    kind: CsvChangeKind;
+    key: string;
+    language?: string;
+    before?: string;
+    after?: string;
+}
+
+export class CsvFormatError extends Error {}
+
+function quoteField(value: string): string {
+    return /[",;\t\r\n]/.test(value) || /^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** Serializes rows as RFC 4180 CSV with CRLF record separators. */
+export function formatCsv(records: string[][]): string {
+    return records.map(record => record.map(quoteField).join(',')).join('\r\n') + '\r\n';
+}
+
+/** Picks the delimiter Excel used (`,`, `;` or tab, depending on its locale) from the header line. */
+function detectDelimiter(text: string): string {
+    const counts = new Map<string, number>([[',', 0], [';', 0], ['\t', 0]]);
+    let quoted = false;
+    for (const ch of text) {
+        if (ch === '"') {
+            quoted = !quoted;
+        } else if (!quoted && (ch === '\n' || ch === '\r')) {
+            break;
+        } else if (!quoted && counts.has(ch)) {
+            counts.set(ch, counts.get(ch)! + 1);
+        }
+    }
+    let best = ',';
+    for (const [delimiter, count] of counts) {
+        if (count > counts.get(best)!) {
+            best = delimiter;
+        }
+    }
+    return best;
+}
+
+/** Parses CSV text; quoted fields may contain delimiters, doubled quotes and line breaks. */
+export function parseCsv(text: string): string[][] {
+    if (text.charCodeAt(0) === 0xfeff) {
+        text = text.slice(1);
+    }
+    const delimiter = detectDelimiter(text);
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let quoted = false;
+    let i = 0;
+
+    const endField = () => {
+        record.push(field);
+        field = '';
+    };
+    const endRecord = () => {
+        endField();
+        // Skip blank lines, which spreadsheets often leave at the end.
+        if (record.length > 1 || record[0] !== '') {
+            records.push(record);
+        }
+        record = [];
+    };
+
+    while (i < text.length) {
+        const ch = text[i];
+        if (quoted) {
+            if (ch === '"') {
+                if (text[i + 1] === '"') {
+                    field += '"';
+                    i += 2;
+                    continue;
+                }
+                quoted = false;
+            } else if (ch === '\r' && text[i + 1] === '\n') {
+                // Line breaks inside values are stored as \n, like the grid does.
+                field += '\n';
+                i++;
+            } else {
+                field += ch;
+            }
+        } else if (ch === '"' && field === '') {
+            quoted = true;
+        } else if (ch === delimiter) {
+            endField();
+        } else if (ch === '\r' || ch === '\n') {
+            endRecord();
+            if (ch === '\r' && text[i + 1] === '\n') {
+                i++;
+            }
+        } else {
+            field += ch;
+        }
+        i++;
+    }
+    if (quoted) {
+        throw new CsvFormatError('Unterminated quoted field.');
+    }
+    if (field !== '' || record.length > 0) {
+        endRecord();
+    }
+    return records;
+}
+
+/** Builds the spreadsheet for `languages`: key, default comment, then one value column per culture. */
+export function exportCsv(resxData: ResxDocument, languages: string[]): string {
+    const defaultFile = resxData['default'];
+    const keys = new Set<string>();
+    for (const language of languages) {
+        for (const entry of resxData[language]?.entries ?? []) {
+            if (isStringEntry(entry)) {
+                keys.add(entry.name);
+            }
+        }
+    }
+
+    const records = [[KEY_COLUMN, COMMENT_COLUMN, ...languages]];
+    for (const key of keys) {
+        records.push([
+            key,
+            defaultFile?.get(key)?.comment ?? '',
+            ...languages.map(language => resxData[language]?.get(key)?.value ?? ''),
+        ]);
+    }
+    return formatCsv(records);
+}
+
+/**
+ * Reads a spreadsheet produced by {@link exportCsv} (or edited from one). Culture columns are matched to
+ * `knownLanguages` case-insensitively; other columns are ignored. Later rows win for duplicate keys.
+ */
+export function parseCsvTable(text: string, knownLanguages: string[]): CsvTable {
+    const [header, ...records] = parseCsv(text);
+    const columns = (header ?? []).map(name => name.trim().toLowerCase());
+    const keyIndex = columns.indexOf(KEY_COLUMN);
+    if (keyIndex < 0) {
+        throw new CsvFormatError(`Missing "${KEY_COLUMN}" column.`);
+    }
+    const commentIndex = columns.indexOf(COMMENT_COLUMN);
+
+    const languageColumns: { language: string; index: number }[] = [];
+    columns.forEach((name, index) => {
+        const language = knownLanguages.find(l => l.toLowerCase() === name);
+        if (language && !languageColumns.some(c => c.language === language)) {
+            languageColumns.push({ language, index });
+        }
+    });
+
+    const rows = new Map<string, CsvRow>();
+    for (const record of records) {
+        const key = (record[keyIndex] ?? '').trim();
+        if (!key) {
+            continue;
+        }
+        const values: Record<string, string> = {};
+        for (const { language, index } of languageColumns) {
+            values[language] = record[index] ?? '';
+        }
+        rows.delete(key);
+        rows.set(key, { key, comment: commentIndex < 0 ? undefined : record[commentIndex] ?? '', values });
+    }
+
+    return {
+        languages: languageColumns.map(c => c.language),
+        hasComment: commentIndex >= 0,
+        rows: [...rows.values()],
+    };
+}
+
+/**
+ * Lists what importing `table` would change for the chosen `languages` (plus comments when `includeComment`).
+ * Empty cells never clear a value, so partially translated sheets are safe to import. Keys missing from the
+ * sheet are reported as removed; non-string resources are never touched.
+ */
+export function diffCsvTable(
+    resxData: ResxDocument,
+    table: CsvTable,
+    languages: string[],
+    includeComment: boolean
+): CsvChange[] {
+    const changes: CsvChange[] = [];
+    const defaultFile = resxData['default'];
+    const isEditable = (key: string) => {
+        const entry = defaultFile?.get(key);
+        return !entry || isStringEntry(entry);
+    };
+
+    const tableKeys = new Set<string>();
+    for (const row of table.rows) {
+        tableKeys.add(row.key);
+        if (!isEditable(row.key)) {
+            continue;
+        }
+        const isNewKey = !Object.values(resxData).some(file => file.has(row.key));
+
+        for (const language of languages) {
+            const after = row.values[language];
+            if (!after) {
+                continue;
+            }
+            const before = resxData[language]?.get(row.key)?.value;
+            if (isNewKey || before === undefined) {
+                changes.push({ kind: 'added', key: row.key, language, after });
+            } else if (before !== after) {
+                changes.push({ kind: 'changed', key: row.key, language, before, after });
+            }
+        }
+
+        if (includeComment && row.comment !== undefined) {
+            const before = defaultFile?.get(row.key)?.comment ?? '';
+            if (before !== row.comment) {
+                changes.push({ kind: isNewKey ? 'added' : 'changed', key: row.key, language: COMMENT_COLUMN, before, after: row.comment });
+            }
+        }
+    }
+
+    const existingKeys = new Set<string>();
+    for (const file of Object.values(resxData)) {
+        for (const entry of file.entries) {
+            if (isStringEntry(entry)) {
+                existingKeys.add(entry.name);
+            }
+        }
+    }
+    for (const key of existingKeys) {
+        if (!tableKeys.has(key)) {
+            changes.push({ kind: 'removed', key });
+        }
+    }
+
+    return changes;
+}
@@ -0,0 +1,114 @@
+// Language subtags of the cultures .NET (ICU and NLS) knows about.
+const KNOWN_LANGUAGES = new Set((
+    'aa ab af agq ak am ar arn as asa ast az ba bas be bem bez bg bin bm bn bo br brx bs byn ' +
+    'ca ce cgg chr ckb co cs cu cy da dav de dje dsb dua dv dyo dz ebu ee el en eo es et eu ewo ' +
+    'fa ff fi fil fo fr fur fy ga gd gl gn gsw gu guz gv ha haw he hi hr hsb hu hy ia ibb id ig ii ' +
+    'is it iu ja jgo jmc jv ka kab kam kde kea khq ki kk kkj kl kln km kn ko kok kr ks ksb ksf ksh ' +
+    'ku kw ky la lag lb lg lkt ln lo lrc lt lu luo luy lv mas mer mfe mg mgh mgo mi mk ml mn mni ' +
+    'moh mr ms mt mua my mzn naq nb nd nds ne nl nmg nn nnh no nqo nr nso nus nyn oc om or os pa ' +
+    'pap pl prg prs ps pt quc quz rm rn ro rof ru rw rwk sa sah saq sbp sd se seh ses sg shi si sk ' +
+    'sl sma smj smn sms sn so sq sr ss ssy st sv sw syr ta te teo tg th ti tig tk tn to tr ts tt twq ' +
+    'tzm ug uk ur uz vai ve vi vo vun wae wal wo xh xog yav yi yo zgh zh zu'
+).split(' '));
+
+const KNOWN_SCRIPTS = new Set((
+    'adlm arab armn beng cans cher cyrl deva ethi geor grek gujr guru hans hant hebr java jpan khmr ' +
+    'knda kore laoo latn mlym mong mtei mymr nkoo olck orya rohg sinh syrc taml telu tfng thaa thai ' +
+    'tibt vaii yiii'
+).split(' '));
+
+const KNOWN_REGIONS = new Set((
+    'ad ae af ag ai al am ao aq ar as at au aw ax az ba bb bd be bf bg bh bi bj bl bm bn bo bq br ' +
+    'bs bt bv bw by bz ca cc cd cf cg ch ci ck cl cm cn co cr cu cv cw cx cy cz de dj dk dm do dz ' +
+    'ec ee eg eh er es et fi fj fk fm fo fr ga gb gd ge gf gg gh gi gl gm gn gp gq gr gs gt gu gw ' +
+    'gy hk hm hn hr ht hu id ie il im in io iq ir is it je jm jo jp ke kg kh ki km kn kp kr kw ky ' +
+    'kz la lb lc li lk lr ls lt lu lv ly ma mc md me mf mg mh mk ml mm mn mo mp mq mr ms mt mu mv ' +
+    'mw mx my mz na nc ne nf ng ni nl no np nr nu nz om pa pe pf pg ph pk pl pm pn pr ps pt pw py ' +
+    'qa re ro rs ru rw sa sb sc sd se sg sh si sj sk sl sm sn so sr ss st sv sx sy sz tc td tf tg ' +
+    'th tj tk tl tm tn to tr tt tv tw tz ua ug um us uy uz va vc ve vg vi vn vu wf ws xk ye yt za ' +
+    'zm zw 001 029 150 419'
+).split(' '));
+
+// Cultures that do not follow the language[-script][-region] shape.
+const SPECIAL_CULTURES = new Map<string, string>([
+    ['qps-ploc', 'Pseudo Locale'],
+    ['qps-ploca', 'Pseudo Locale (RTL)'],
+    ['qps-plocm', 'Pseudo Locale (Mirrored)'],
+    ['zh-chs', 'Chinese (Simplified) Legacy'],
+    ['zh-cht', 'Chinese (Traditional) Legacy'],
+]);
+
+// Specific cultures offered when adding a new culture, in addition to every neutral language.
+const COMMON_SPECIFIC_CULTURES = (
+    'af-ZA ar-EG ar-SA az-Latn-AZ bg-BG bn-IN ca-ES cs-CZ cy-GB da-DK de-AT de-CH de-DE el-GR en-AU ' +
+    'en-CA en-GB en-IE en-IN en-NZ en-US en-ZA es-419 es-AR es-CO es-ES es-MX et-EE eu-ES fa-IR fi-FI ' +
+    'fil-PH fr-BE fr-CA fr-CH fr-FR ga-IE gl-ES he-IL hi-IN hr-HR hu-HU hy-AM id-ID is-IS it-CH it-IT ' +
+    'ja-JP ka-GE kk-KZ ko-KR lt-LT lv-LV mn-MN mr-IN ms-MY nb-NO nl-BE nl-NL pl-PL pt-BR pt-PT ro-RO ' +
+    'ru-RU sk-SK sl-SI sr-Cyrl-RS sr-Latn-RS sv-SE sw-KE ta-IN te-IN th-TH tr-TR uk-UA ur-PK ' +
+    'uz-Latn-UZ vi-VN zh-CN zh-Hans zh-Hant zh-HK zh-SG zh-TW'
+).split(' ');
+
+/**
+ * True if `name` is a culture name .NET would accept for a satellite resource file:
+ * neutral (`fr`), specific (`fr-CA`), script (`zh-Hans`, `sr-Cyrl-RS`) or variant (`ca-ES-valencia`).
+ * Subtags are checked against known lists so names like `Designer` or `Old` are not mistaken for cultures.
+ */
+export function isKnownCultureName(name: string): boolean {
+    const lower = name.toLowerCase();
+    if (SPECIAL_CULTURES.has(lower)) {
+        return true;
+    }
+
+    const [language, ...rest] = lower.split('-');
+    if (!KNOWN_LANGUAGES.has(language)) {
+        return false;
+    }
+
+    let i = 0;
+    if (rest[i] !== undefined && rest[i].length === 4 && KNOWN_SCRIPTS.has(rest[i])) {
+        i++;
+    }
+    if (rest[i] !== undefined && KNOWN_REGIONS.has(rest[i])) {
+        i++;
+    }
+    for (; i < rest.length; i++) {
+        if (!/^(?:[a-z0-9]{5,8}|[0-9][a-z0-9]{3})$/.test(rest[i])) {
+            return false;
+        }
+    }
+    return true;
+}
+
+/** Display name of `culture` in `displayLocale`, e.g. "French (Canada)"; falls back to the culture name. */
+export function getCultureDisplayName(culture: string, displayLocale: string): string {
+    const special = SPECIAL_CULTURES.get(culture.toLowerCase());
+    if (special) {
+        return special;
+    }
+    try {
+        const names = new Intl.DisplayNames([displayLocale, 'en'], { type: 'language', fallback: 'code' });
+        return names.of(culture) ?? culture;
+    } catch {
+        return culture;
+    }
+}
+
+/** Culture names to offer in pickers: every neutral language plus common specific and script cultures. */
+export function listCultureNames(): string[] {
+    return [...KNOWN_LANGUAGES, ...COMMON_SPECIFIC_CULTURES].sort();
+}
+
+/**
+ * Splits a resx file name into its base name and culture, e.g. `Messages.fr-CA.resx` into `Messages` and
+ * `fr-CA`. Neutral files like `Messages.resx` or `Form1.Designer.resx` have no culture.
+ */
+export function splitResxFileName(fileName: string): { baseName: string; culture?: string } | undefined {
+    const match = fileName.match(/^(.+?)(?:\.([A-Za-z0-9]+(?:-[A-Za-z0-9]+)*))?\.resx$/i);
+    if (!match) {
+        return undefined;
+    }
+    if (match[2] && isKnownCultureName(match[2])) {
+        return { baseName: match[1], culture: match[2] };
+    }
+    return { baseName: fileName.slice(0, -'.resx'.length) };
+}
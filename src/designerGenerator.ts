@@ -0,0 +1,266 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { ResxFile } from './resxFile';
+import { isValidCSharpIdentifier } from './resourceKeys';
+
+export type DesignerAccess = 'public' | 'internal';
+
+/** Where and how the strongly typed resource class of a .resx file is generated. */
+export interface DesignerSettings {
+    designerPath: string;
+    className: string;
+    namespace: string;
+    /** Manifest resource name passed to `ResourceManager`, usually `<namespace>.<class name>`. */
+    resourceName: string;
+    access: DesignerAccess;
+}
+
+const GENERATORS: Record<string, DesignerAccess> = {
+    ResXFileCodeGenerator: 'internal',
+    PublicResXFileCodeGenerator: 'public',
+};
+
+/** Members the generated class always declares; resources with these names are skipped like Visual Studio does. */
+const RESERVED_MEMBERS = new Set(['ResourceManager', 'Culture']);
+
+/** Turns a file, folder or key name into a C# identifier the way StronglyTypedResourceBuilder does. */
+export function toIdentifier(name: string): string {
+    let identifier = name.replace(/[^\p{L}\p{Nl}\p{Mn}\p{Mc}\p{Nd}\p{Pc}\p{Cf}]/gu, '_');
+    if (!/^[\p{L}\p{Nl}_]/u.test(identifier)) {
+        identifier = '_' + identifier;
+    }
+    return isValidCSharpIdentifier(identifier) ? identifier : '_' + identifier;
+}
+
+async function readText(filePath: string): Promise<string | undefined> {
+    try {
+        return await fs.promises.readFile(filePath, 'utf-8');
+    } catch {
+        return undefined;
+    }
+}
+
+/** The nearest .csproj in the folder of `resxPath` or any parent folder. */
+async function findProjectFile(resxPath: string): Promise<string | undefined> {
+    let dir = path.dirname(resxPath);
+    for (;;) {
+        const entries = await fs.promises.readdir(dir).catch(() => [] as string[]);
+        const project = entries.find(entry => entry.toLowerCase().endsWith('.csproj'));
+        if (project) {
+            return path.join(dir, project);
+        }
+        const parent = path.dirname(dir);
+        if (parent === dir) {
+            return undefined;
+        }
+        dir = parent;
+    }
+}
+
+interface ProjectResourceSettings {
+    rootNamespace: string;
+    projectDir: string;
+    generator?: string;
+    customToolNamespace?: string;
+    lastGenOutput?: string;
+}
+
+/** Reads the `<EmbeddedResource>` item for `resxPath` (Update or Include) and the project's root namespace. */
+function readProjectSettings(projectPath: string, projectText: string, resxPath: string): ProjectResourceSettings {
+    const projectDir = path.dirname(projectPath);
+    const rootNamespace = projectText.match(/<RootNamespace>\s*([^<]*?)\s*<\/RootNamespace>/)?.[1]
+        || path.basename(projectPath, '.csproj').split('.').map(toIdentifier).join('.');
+    const relative = path.relative(projectDir, resxPath).replace(/\//g, '\\').toLowerCase();
+    const settings: ProjectResourceSettings = { rootNamespace, projectDir };
+
+    const itemPattern = /<EmbeddedResource\s+(?:Update|Include)\s*=\s*"([^"]*)"\s*>([\s\S]*?)<\/EmbeddedResource>/g;
+    for (const match of projectText.matchAll(itemPattern)) {
+        if (match[1].replace(/\//g, '\\').toLowerCase() !== relative) {
+            continue;
+        }
+        const read = (name: string) => match[2].match(new RegExp(`<${name}>\\s*([^<]*?)\\s*</${name}>`))?.[1] || undefined;
+        settings.generator = read('Generator');
+        settings.customToolNamespace = read('CustomToolNamespace');
+        settings.lastGenOutput = read('LastGenOutput');
+    }
+    return settings;
+}
+
+/**
+ * Finds out whether `resxPath` has a strongly typed class, either because its Designer file exists or because
+ * the project sets a ResX code generator for it. Settings from the existing Designer file win so regenerating
+ * does not move the class; the project generator decides the access modifier when it is set.
+ */
+export async function findDesignerSettings(resxPath: string): Promise<DesignerSettings | undefined> {
+    const baseName = path.basename(resxPath, '.resx');
+    const projectPath = await findProjectFile(resxPath);
+    const projectText = projectPath ? await readText(projectPath) : undefined;
+    const project = projectPath && projectText !== undefined ? readProjectSettings(projectPath, projectText, resxPath) : undefined;
+
+    const designerPath = path.join(path.dirname(resxPath), project?.lastGenOutput ?? `${baseName}.Designer.cs`);
+    const existing = await readText(designerPath);
+    const projectAccess = project?.generator ? GENERATORS[project.generator] : undefined;
+    if (existing === undefined && !projectAccess) {
+        return undefined;
+    }
+
+    const className = toIdentifier(baseName);
+    let namespace = project?.customToolNamespace;
+    if (!namespace && project) {
+        const folders = path.relative(project.projectDir, path.dirname(resxPath)).split(path.sep).filter(Boolean);
+        namespace = [project.rootNamespace, ...folders.map(toIdentifier)].join('.');
+    }
+    let resourceName = namespace ? `${namespace}.${className}` : className;
+    let access: DesignerAccess = projectAccess ?? 'internal';
+
+    if (existing !== undefined) {
+        namespace = existing.match(/^\s*namespace\s+([\w.]+)/m)?.[1] ?? namespace;
+        resourceName = existing.match(/new global::System\.Resources\.ResourceManager\("([^"]+)"/)?.[1] ?? resourceName;
+        if (!projectAccess) {
+            const declared = existing.match(new RegExp(`\\b(public|internal)\\s+(?:partial\\s+)?class\\s+${className}\\b`))?.[1];
+            access = declared === 'public' ? 'public' : 'internal';
+        }
+    }
+
+    return { designerPath, className, namespace: namespace ?? '', resourceName, access };
+}
+
+function escapeXmlDoc(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Formats the summary Visual Studio writes for a string resource; long values are cut at 512 characters.
+ * Each line of a multi-line value becomes a `///` line, ended with `newline` like the rest of the file.
+ */
+function describeString(value: string, indent: string, newline: string): string {
+    const truncated = value.length > 512 ? `${value.slice(0, 512)} [rest of string was truncated]` : value;
+    return escapeXmlDoc(`Looks up a localized string similar to ${truncated}.`).split('\n').join(`${newline}${indent}///`);
+}
+
+/** C# type of a non-string resource, read from its `type` attribute or, for file references, its value. */
+function getResourceType(type: string, value: string): string {
+    let typeName = type.split(',')[0].trim();
+    if (typeName === 'System.Resources.ResXFileRef') {
+        typeName = (value.split(';')[1] ?? 'System.Object').split(',')[0].trim();
+    }
+    switch (typeName) {
+        case 'System.String': return 'string';
+        case 'System.Byte[]': return 'byte[]';
+        case 'System.IO.MemoryStream':
+        case 'System.IO.Stream': return 'System.IO.UnmanagedMemoryStream';
+        default: return typeName;
+    }
+}
+
+/** Generates the accessor class ResXFileCodeGenerator / PublicResXFileCodeGenerator would produce for `resx`. */
+export function generateDesignerCode(resx: ResxFile, settings: DesignerSettings, newline = '\r\n'): string {
+    const { className, access } = settings;
+    const hasNamespace = settings.namespace !== '';
+    const indent = hasNamespace ? '    ' : '';
+    const lines: string[] = [
+        '//------------------------------------------------------------------------------',
+        '// <auto-generated>',
+        '//     This code was generated by a tool.',
+        '//',
+        '//     Changes to this file may cause incorrect behavior and will be lost if',
+        '//     the code is regenerated.',
+        '// </auto-generated>',
+        '//------------------------------------------------------------------------------',
+        '',
+    ];
+    const push = (line: string) => lines.push(line ? indent + line : line);
+
+    if (hasNamespace) {
+        lines.push(`namespace ${settings.namespace} {`);
+    }
+    push('using System;');
+    push('');
+    push('');
+    push('/// <summary>');
+    push('///   A strongly-typed resource class, for looking up localized strings, etc.');
+    push('/// </summary>');
+    push('// This class was auto-generated by the StronglyTypedResourceBuilder');
+    push('// class via a tool like ResGen or Visual Studio.');
+    push('// To add or remove a member, edit your .ResX file then rerun ResGen');
+    push('// with the /str option, or rebuild your VS project.');
+    push('[global::System.CodeDom.Compiler.GeneratedCodeAttribute("System.Resources.Tools.StronglyTypedResourceBuilder", "17.0.0.0")]');
+    push('[global::System.Diagnostics.DebuggerNonUserCodeAttribute()]');
+    push('[global::System.Runtime.CompilerServices.CompilerGeneratedAttribute()]');
+    push(`${access} class ${className} {`);
+    push('    ');
+    push('    private static global::System.Resources.ResourceManager resourceMan;');
+    push('    ');
+    push('    private static global::System.Globalization.CultureInfo resourceCulture;');
+    push('    ');
+    push('    [global::System.Diagnostics.CodeAnalysis.SuppressMessageAttribute("Microsoft.Performance", "CA1811:AvoidUncalledPrivateCode")]');
+    push(`    internal ${className}() {`);
+    push('    }');
+    push('    ');
+    push('    /// <summary>');
+    push('    ///   Returns the cached ResourceManager instance used by this class.');
+    push('    /// </summary>');
+    push('    [global::System.ComponentModel.EditorBrowsableAttribute(global::System.ComponentModel.EditorBrowsableState.Advanced)]');
+    push(`    ${access} static global::System.Resources.ResourceManager ResourceManager {`);
+    push('        get {');
+    push('            if (object.ReferenceEquals(resourceMan, null)) {');
+    push(`                global::System.Resources.ResourceManager temp = new global::System.Resources.ResourceManager("${settings.resourceName}", typeof(${className}).Assembly);`);
+    push('                resourceMan = temp;');
+    push('            }');
+    push('            return resourceMan;');
+    push('        }');
+    push('    }');
+    push('    ');
+    push('    /// <summary>');
+    push('    ///   Overrides the current thread\'s CurrentUICulture property for all');
+    push('    ///   resource lookups using this strongly typed resource class.');
+    push('    /// </summary>');
+    push('    [global::System.ComponentModel.EditorBrowsableAttribute(global::System.ComponentModel.EditorBrowsableState.Advanced)]');
+    push(`    ${access} static global::System.Globalization.CultureInfo Culture {`);
+    push('        get {');
+    push('            return resourceCulture;');
+    push('        }');
+    push('        set {');
+    push('            resourceCulture = value;');
+    push('        }');
+    push('    }');
+
+    const members = new Set<string>([className, ...RESERVED_MEMBERS]);
+    // Visual Studio orders members case-insensitively by resource name.
+    const keys = [...resx.keys()].sort((a, b) => a.toLowerCase() < b.toLowerCase() ? -1 : a.toLowerCase() > b.toLowerCase() ? 1 : 0);
+    for (const key of keys) {
+        const entry = resx.get(key)!;
+        const property = toIdentifier(key);
+        if (members.has(property)) {
+            continue;
+        }
+        members.add(property);
+
+        const type = getResourceType(entry.type ?? (entry.mimetype ? 'System.Object' : 'System.String'), entry.value);
+        const literal = `"${key.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+        push('    ');
+        push('    /// <summary>');
+        push(type === 'string'
+            ? `    ///   ${describeString(entry.value, indent + '    ', newline)}`
+            : `    ///   Looks up a localized resource of type ${escapeXmlDoc(type)}.`);
+        push('    /// </summary>');
+        push(`    ${access} static ${type} ${property} {`);
+        push('        get {');
+        if (type === 'string') {
+            push(`            return ResourceManager.GetString(${literal}, resourceCulture);`);
+        } else if (type === 'System.IO.UnmanagedMemoryStream') {
+            push(`            return ResourceManager.GetStream(${literal}, resourceCulture);`);
+        } else {
+            push(`            object obj = ResourceManager.GetObject(${literal}, resourceCulture);`);
+            push(`            return ((${type})(obj));`);
+        }
+        push('        }');
+        push('    }');
+    }
+
+    push('}');
+    if (hasNamespace) {
+        lines.push('}');
+    }
+    return lines.join(newline) + newline;
+}
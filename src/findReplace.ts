@@ -0,0 +1,88 @@
+import { ResxDocument, isStringEntry } from './resxFile';
+
+export interface FindReplaceOptions {
+    find: string;
+    replace: string;
+    regex: boolean;
+    matchCase: boolean;
+    /** Cultures to search; all when omitted. */
+    languages?: string[];
+    /** Keys to search; all when omitted. */
+    keys?: string[];
+}
+
+export interface Replacement {
+    key: string;
+    language: string;
+    before: string;
+    after: string;
+    matches: number;
+}
+
+/**
+ * Builds the global search pattern. Throws a SyntaxError for an invalid regular expression. Without the `u`
+ * flag, so identity escapes such as `\-` or `\_` that .NET and most editors accept stay valid.
+ */
+export function createFindPattern(options: FindReplaceOptions): RegExp {
+    const source = options.regex ? options.find : options.find.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(source, options.matchCase ? 'g' : 'gi');
+}
+
+/**
+ * Counts the matches of the global `pattern` in `value`. Empty matches such as `^` or `$` count too, so a
+ * prefix or suffix can be added in bulk; `lastIndex` is advanced past them to keep the loop finite.
+ */
+function countMatches(pattern: RegExp, value: string): number {
+    let count = 0;
+    pattern.lastIndex = 0;
+    for (let match = pattern.exec(value); match; match = pattern.exec(value)) {
+        count++;
+        if (match[0].length === 0) {
+            pattern.lastIndex++;
+        }
+    }
+    return count;
+}
+
+/**
+ * Computes the value of every cell `options` would change. With `regex`, the replacement may refer to
+ * capture groups as `$1`, `$<name>` or `$&`, exactly like `String.prototype.replace`.
+ */
+export function findReplacements(resxData: ResxDocument, options: FindReplaceOptions): Replacement[] {
+    const replacements: Replacement[] = [];
+    if (!options.find) {
+        return replacements;
+    }
+
+    const pattern = createFindPattern(options);
+    const keyFilter = options.keys ? new Set(options.keys) : undefined;
+    // Without regex the replacement is literal text, so `$` must not be read as a group reference.
+    const replacement = options.regex ? options.replace : options.replace.replace(/\$/g, '$$$$');
+
+    for (const [language, file] of Object.entries(resxData)) {
+        if (options.languages && !options.languages.includes(language)) {
+            continue;
+        }
+
+        for (const key of file.keys()) {
+            if (keyFilter && !keyFilter.has(key)) {
+                continue;
+            }
+            const entry = file.get(key)!;
+            if (!isStringEntry(entry)) {
+                continue;
+            }
+            const before = entry.value;
+            const matches = countMatches(pattern, before);
+            if (matches === 0) {
+                continue;
+            }
+            const after = before.replace(pattern, replacement);
+            if (after !== before) {
+                replacements.push({ key, language, before, after, matches });
+            }
+        }
+    }
+
+    return replacements;
+}
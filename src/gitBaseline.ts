@@ -0,0 +1,48 @@
+import { execFile } from 'child_process';
+import * as path from 'path';
+import { ResxDocument, ResxFile } from './resxFile';
+
+export class GitError extends Error {}
+
+function git(cwd: string, args: string[]): Promise<string> {
+    return new Promise((resolve, reject) => {
+        execFile('git', args, { cwd, encoding: 'utf8', maxBuffer: 64 * 1024 * 1024 }, (error, stdout, stderr) => {
+            if (error) {
+                const reason = (error as NodeJS.ErrnoException).code === 'ENOENT' ? 'git was not found on the PATH' : stderr.trim() || error.message;
+                reject(new GitError(reason));
+            } else {
+                resolve(stdout);
+            }
+        });
+    });
+}
+
+/**
+ * The text of `filePath` as committed at `revision`, or undefined when the file is not part of that commit
+ * (a new, untracked or ignored file). Fails when the folder is not in a git work tree or has no such revision.
+ */
+export async function readCommittedFile(filePath: string, revision = 'HEAD'): Promise<string | undefined> {
+    const cwd = path.dirname(filePath);
+    // `ls-tree` resolves the path relative to `cwd` and prints nothing for files the commit does not have.
+    const listing = await git(cwd, ['ls-tree', '-z', revision, '--', path.basename(filePath)]);
+    const match = listing.match(/^\d+ blob ([0-9a-f]+)\t/);
+    if (!match) {
+        return undefined;
+    }
+    return git(cwd, ['cat-file', 'blob', match[1]]);
+}
+
+/**
+ * Reads the committed version of each file of a resx set, keyed like the editor's model. Files that are not
+ * committed at `revision` are left out, so every value in them counts as added.
+ */
+export async function loadCommittedResxSet(files: { language: string; path: string }[], revision = 'HEAD'): Promise<ResxDocument> {
+    const resxData: ResxDocument = {};
+    for (const file of files) {
+        const text = await readCommittedFile(file.path, revision);
+        if (text !== undefined) {
+            resxData[file.language] = ResxFile.parse(text);
+        }
+    }
+    return resxData;
+}
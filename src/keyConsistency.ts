@@ -0,0 +1,110 @@
+import { ResxDocument } from './resxFile';
+import { ValidationSeverity } from './placeholderValidation';
+
+export type KeyIssueKind = 'duplicateKey' | 'orphanKey' | 'caseCollision';
+
+/**
+ * One-click fixes the editor offers for a key issue:
+ * - `removeDuplicates`: keep the last `<data>` node, which is the one the editor and ResXResourceReader use
+ * - `addToDefault`: copy the culture value into the default file so the key exists for every culture
+ * - `deleteFromCulture`: remove the key from the culture file only
+ * - `renameToMatch`: rename the key in the culture file to the default file's spelling (`other`)
+ * - `deleteKey`: remove the key from the default file and every culture file
+ */
+export type KeyIssueFix = 'removeDuplicates' | 'addToDefault' | 'deleteFromCulture' | 'renameToMatch' | 'deleteKey';
+
+export interface KeyIssue {
+    key: string;
+    language: string;
+    kind: KeyIssueKind;
+    severity: ValidationSeverity;
+    message: string;
+    /** For case collisions, the spelling `key` collides with. */
+    other?: string;
+    fixes: KeyIssueFix[];
+}
+
+/**
+ * Checks the keys of a resx set rather than its values: `<data>` names repeated within one file, keys that
+ * only culture files define, and names that differ only in case. ResourceWriter compares names ignoring
+ * case, so `Title` and `title` in one file fail the build, while a culture spelling a default key with a
+ * different case is never found at runtime and silently falls back to the default value.
+ */
+export function checkKeyConsistency(resxData: ResxDocument): KeyIssue[] {
+    const issues: KeyIssue[] = [];
+    const defaultFile = resxData['default'];
+    const defaultByLowerCase = new Map<string, string>();
+    for (const key of defaultFile?.keys() ?? []) {
+        if (!defaultByLowerCase.has(key.toLowerCase())) {
+            defaultByLowerCase.set(key.toLowerCase(), key);
+        }
+    }
+
+    for (const [language, file] of Object.entries(resxData)) {
+        const counts = new Map<string, number>();
+        for (const entry of file.entries) {
+            counts.set(entry.name, (counts.get(entry.name) ?? 0) + 1);
+        }
+        const where = language === 'default' ? 'the default file' : `the ${language} file`;
+
+        const spellings = new Map<string, string[]>();
+        for (const [key, count] of counts) {
+            if (count > 1) {
+                issues.push({
+                    key,
+                    language,
+                    kind: 'duplicateKey',
+                    severity: 'warning',
+                    message: `"${key}" is defined ${count} times in ${where}; only the last definition is used.`,
+                    fixes: ['removeDuplicates'],
+                });
+            }
+            spellings.set(key.toLowerCase(), [...(spellings.get(key.toLowerCase()) ?? []), key]);
+        }
+
+        for (const [lowerCase, keys] of spellings) {
+            // Keep the default file's spelling when it is one of the colliding names; report the others.
+            const canonical = keys.find(key => key === defaultByLowerCase.get(lowerCase)) ?? keys[0];
+            for (const key of keys) {
+                if (key !== canonical) {
+                    issues.push({
+                        key,
+                        language,
+                        kind: 'caseCollision',
+                        severity: 'error',
+                        message: `"${key}" differs from "${canonical}" only in case; resource names must be unique ignoring case in ${where}.`,
+                        other: canonical,
+                        fixes: language === 'default' ? ['deleteKey'] : ['deleteFromCulture'],
+                    });
+                    continue;
+                }
+                if (language === 'default' || !defaultFile || defaultFile.has(key)) {
+                    continue;
+                }
+                const defaultSpelling = defaultByLowerCase.get(lowerCase);
+                if (defaultSpelling !== undefined) {
+                    issues.push({
+                        key,
+                        language,
+                        kind: 'caseCollision',
+                        severity: 'warning',
+                        message: `"${key}" (${language}) differs from the default key "${defaultSpelling}" only in case, so the translation is never used.`,
+                        other: defaultSpelling,
+                        fixes: ['renameToMatch', 'deleteFromCulture'],
+                    });
+                } else {
+                    issues.push({
+                        key,
+                        language,
+                        kind: 'orphanKey',
+                        severity: 'warning',
+                        message: `"${key}" (${language}) does not exist in the default file.`,
+                        fixes: ['addToDefault', 'deleteFromCulture'],
+                    });
+                }
+            }
+        }
+    }
+
+    return issues;
+}
@@ -0,0 +1,108 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ResourceIndex, ResxSetInfo, WORKSPACE_EXCLUDE } from './resourceIndex';
+import { ResourceReference, findAllReferences, findLocalizerTypes } from './codeReferences';
+import { ResxDocument, isStringEntry } from './resxFile';
+
+const CODE_FILES = '**/*.{cs,cshtml,razor,xaml}';
+
+/** Members of every generated resource class that are not resource keys. */
+const GENERATED_MEMBERS = new Set(['ResourceManager', 'Culture']);
+
+export interface UndefinedReference {
+    uri: vscode.Uri;
+    range: vscode.Range;
+    key: string;
+    className: string;
+}
+
+export interface KeyUsageReport {
+    /** String keys no code file references, per set (keyed by the neutral file URI). */
+    unused: Map<string, string[]>;
+    /** References to keys that none of the resolved sets define. */
+    undefinedReferences: UndefinedReference[];
+    scannedFiles: number;
+}
+
+async function readText(uri: vscode.Uri): Promise<string> {
+    const open = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+    return open ? open.getText() : Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf-8');
+}
+
+/**
+ * Scans C#, Razor and XAML files for references to the workspace's resx sets. Generated Designer files
+ * are skipped because they reference every key. Only references whose resource class is known can be
+ * reported as undefined: localizers of unknown type and `GetString` calls often pass text as the key.
+ */
+export async function analyzeKeyUsage(index: ResourceIndex, token: vscode.CancellationToken): Promise<KeyUsageReport> {
+    const sets = await index.getSets();
+    const setData = new Map<ResxSetInfo, ResxDocument>();
+    for (const set of sets) {
+        setData.set(set, await index.loadSet(set));
+    }
+    const defines = (set: ResxSetInfo, key: string) => Object.values(setData.get(set) ?? {}).some(file => file.has(key));
+
+    const classNames = new Set(sets.map(set => set.className));
+    const designerFiles = new Set(sets.map(set =>
+        path.join(path.dirname(set.uri.fsPath), `${set.baseName}.Designer.cs`).toLowerCase()));
+    const used = new Map<ResxSetInfo, Set<string>>(sets.map(set => [set, new Set<string>()]));
+    const undefinedReferences: UndefinedReference[] = [];
+
+    const resolveSets = async (reference: ResourceReference): Promise<ResxSetInfo[]> => {
+        if (!reference.className) {
+            return [];
+        }
+        return reference.kind === 'member'
+            ? sets.filter(set => set.className === reference.className)
+            : index.findSetsByClassName(reference.className);
+    };
+
+    const files = (await vscode.workspace.findFiles(CODE_FILES, WORKSPACE_EXCLUDE, undefined, token))
+        .filter(uri => !designerFiles.has(uri.fsPath.toLowerCase()));
+    for (const uri of files) {
+        if (token.isCancellationRequested) {
+            break;
+        }
+        let text: string;
+        try {
+            text = await readText(uri);
+        } catch {
+            continue;
+        }
+
+        const references = findAllReferences(text, findLocalizerTypes(text), className => classNames.has(className));
+        for (const reference of references) {
+            if (reference.kind === 'member' && GENERATED_MEMBERS.has(reference.key)) {
+                continue;
+            }
+            const resolved = await resolveSets(reference);
+            const defining = (resolved.length > 0 ? resolved : sets).filter(set => defines(set, reference.key));
+            for (const set of defining) {
+                used.get(set)!.add(reference.key);
+            }
+            if (defining.length === 0 && resolved.length > 0) {
+                undefinedReferences.push({
+                    uri,
+                    range: new vscode.Range(reference.line, reference.start, reference.line, reference.end),
+                    key: reference.key,
+                    className: reference.className!,
+                });
+            }
+        }
+    }
+
+    const unused = new Map<string, string[]>();
+    for (const set of sets) {
+        const keys = new Set<string>();
+        for (const file of Object.values(setData.get(set) ?? {})) {
+            for (const entry of file.entries) {
+                if (isStringEntry(entry) && !used.get(set)!.has(entry.name)) {
+                    keys.add(entry.name);
+                }
+            }
+        }
+        unused.set(set.uri.toString(), [...keys]);
+    }
+
+    return { unused, undefinedReferences, scannedFiles: files.length };
+}
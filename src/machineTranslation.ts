@@ -0,0 +1,162 @@
+/**
+ * Machine translation of resource values. Providers only ever see protected text: format placeholders,
+ * HTML tags and entities are swapped for numbered markers such as `⟦0⟧` before translation and put back
+ * afterwards, so a provider can neither translate nor drop them unnoticed.
+ */
+
+export interface TranslationProvider {
+    /**
+     * Translates each of `texts` from `source` to `target` (culture names such as `en` or `zh-Hans`).
+     * An entry is undefined when the provider has no translation for that text.
+     */
+    translate(texts: string[], source: string, target: string, signal?: AbortSignal): Promise<(string | undefined)[]>;
+}
+
+export class TranslationError extends Error {}
+
+const PROTECTED = /\{\d+\s*(?:,\s*-?\d+\s*)?(?::[^{}]*)?\}|<\/?[A-Za-z][^<>]*>|&(?:[A-Za-z]+|#\d+|#x[0-9A-Fa-f]+);/g;
+const MARKER = /⟦\s*(\d+)\s*⟧/g;
+
+export interface ProtectedText {
+    text: string;
+    /** Token for each marker number; the same token always gets the same marker. */
+    tokens: string[];
+}
+
+/** Replaces placeholders, tags and entities with markers, reusing the marker of any token already in `tokens`. */
+export function protectText(text: string, tokens: string[] = []): ProtectedText {
+    const known = [...tokens];
+    const protectedText = text.replace(PROTECTED, token => {
+        let index = known.indexOf(token);
+        if (index < 0) {
+            index = known.push(token) - 1;
+        }
+        return `⟦${index}⟧`;
+    });
+    return { text: protectedText, tokens: known };
+}
+
+/** Puts the tokens back, or returns undefined when the translation lost a marker or invented one. */
+export function restoreText(translated: string, tokens: string[]): string | undefined {
+    const seen = new Set<number>();
+    let valid = true;
+    const restored = translated.replace(MARKER, (_marker, digits: string) => {
+        const index = Number(digits);
+        if (index >= tokens.length) {
+            valid = false;
+            return '';
+        }
+        seen.add(index);
+        return tokens[index];
+    });
+    return valid && seen.size === tokens.length ? restored : undefined;
+}
+
+const BATCH_SIZE = 25;
+
+/**
+ * Translates `texts` through `provider` in batches with placeholders and markup protected. Results are
+ * undefined for texts the provider could not translate or whose placeholders did not survive.
+ */
+export async function translateTexts(
+    provider: TranslationProvider,
+    texts: string[],
+    source: string,
+    target: string,
+    signal?: AbortSignal
+): Promise<(string | undefined)[]> {
+    const results: (string | undefined)[] = [];
+    for (let start = 0; start < texts.length && !signal?.aborted; start += BATCH_SIZE) {
+        const batch = texts.slice(start, start + BATCH_SIZE).map(text => protectText(text));
+        const translated = await provider.translate(batch.map(b => b.text), source, target, signal);
+        batch.forEach((item, i) => {
+            const text = translated[i];
+            results.push(text === undefined ? undefined : restoreText(text, item.tokens));
+        });
+    }
+    return results;
+}
+
+/** LibreTranslate language code for a .NET culture name: the language subtag, with `zt` for Traditional Chinese. */
+function toLibreTranslateLanguage(culture: string): string {
+    const lower = culture.toLowerCase();
+    if (/^zh-(hant|tw|hk|mo)\b/.test(lower)) {
+        return 'zt';
+    }
+    return lower.split('-')[0];
+}
+
+/** A LibreTranslate-compatible `/translate` endpoint (`q` as an array, `format: "text"`). */
+export class HttpTranslationProvider implements TranslationProvider {
+    constructor(
+        private readonly endpoint: string,
+        private readonly apiKey?: string
+    ) {}
+
+    public async translate(texts: string[], source: string, target: string, signal?: AbortSignal): Promise<(string | undefined)[]> {
+        let response: Response;
+        try {
+            response = await fetch(this.endpoint, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    q: texts,
+                    source: toLibreTranslateLanguage(source),
+                    target: toLibreTranslateLanguage(target),
+                    format: 'text',
+                    ...(this.apiKey ? { api_key: this.apiKey } : {}),
+                }),
+                signal,
+            });
+        } catch (error) {
+            if (signal?.aborted) {
+                throw error;
+            }
+            throw new TranslationError(`${this.endpoint}: ${error instanceof Error ? error.message : error}`);
+        }
+
+        const body = await response.json().catch(() => undefined) as { translatedText?: string | string[]; error?: string } | undefined;
+        if (!response.ok || !body || body.translatedText === undefined) {
+            throw new TranslationError(`${this.endpoint}: ${body?.error ?? `HTTP ${response.status}`}`);
+        }
+        const translated = Array.isArray(body.translatedText) ? body.translatedText : [body.translatedText];
+        return texts.map((_text, i) => translated[i]);
+    }
+}
+
+/**
+ * Offline provider backed by a JSON dictionary of `{ "<culture>": { "<source text>": "<translation>" } }`,
+ * for testing and for terminology that must always be translated the same way. A culture without its own
+ * entry falls back to its parent, e.g. `fr-CA` to `fr`.
+ */
+export class DictionaryTranslationProvider implements TranslationProvider {
+    private readonly dictionaries = new Map<string, Map<string, string>>();
+
+    constructor(entries: Record<string, Record<string, string>>) {
+        for (const [culture, translations] of Object.entries(entries)) {
+            const dictionary = new Map<string, string>();
+            for (const [source, target] of Object.entries(translations)) {
+                // Protect both sides with the same markers so lookups match the protected text we are given.
+                const protectedSource = protectText(source);
+                dictionary.set(protectedSource.text, protectText(target, protectedSource.tokens).text);
+            }
+            this.dictionaries.set(culture.toLowerCase(), dictionary);
+        }
+    }
+
+    public static parse(json: string): DictionaryTranslationProvider {
+        const entries = JSON.parse(json);
+        if (!entries || typeof entries !== 'object' || Array.isArray(entries)) {
+            throw new TranslationError('The dictionary must be a JSON object keyed by culture');
+        }
+        return new DictionaryTranslationProvider(entries);
+    }
+
+    public async translate(texts: string[], _source: string, target: string): Promise<(string | undefined)[]> {
+        let dictionary: Map<string, string> | undefined;
+        for (let culture = target.toLowerCase(); culture && !dictionary; culture = culture.slice(0, Math.max(0, culture.lastIndexOf('-')))) {
+            dictionary = this.dictionaries.get(culture);
+        }
+        return texts.map(text => dictionary?.get(text));
+    }
+}
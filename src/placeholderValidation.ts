@@ -0,0 +1,128 @@
+import { ResxDocument, isStringEntry } from './resxFile';
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export type ValidationIssueKind =
+    | 'placeholderMissing'
+    | 'placeholderExtra'
+    | 'braceMismatch'
+    | 'whitespaceMismatch';
+
+export interface ValidationIssue {
+    key: string;
+    language: string;
+    kind: ValidationIssueKind;
+    severity: ValidationSeverity;
+    message: string;
+}
+
+interface FormatString {
+    /** Placeholder indexes in order of first appearance, e.g. `{1:N2}` contributes `1`. */
+    indexes: number[];
+    /** Whether every `{`/`}` is either escaped (`{{`, `}}`) or part of a well-formed placeholder. */
+    balanced: boolean;
+}
+
+const PLACEHOLDER_BODY = /^\s*(\d+)\s*(?:,\s*-?\d+\s*)?(?::[^{}]*)?$/;
+
+/** Parses `value` the way `string.Format` reads a composite format string. */
+export function parseFormatString(value: string): FormatString {
+    const indexes: number[] = [];
+    let balanced = true;
+
+    for (let i = 0; i < value.length; i++) {
+        const ch = value[i];
+        if (ch === '{') {
+            if (value[i + 1] === '{') {
+                i++;
+                continue;
+            }
+            const close = value.indexOf('}', i + 1);
+            const match = close < 0 ? null : value.slice(i + 1, close).match(PLACEHOLDER_BODY);
+            if (!match) {
+                balanced = false;
+                continue;
+            }
+            const index = Number(match[1]);
+            if (!indexes.includes(index)) {
+                indexes.push(index);
+            }
+            i = close;
+        } else if (ch === '}') {
+            if (value[i + 1] === '}') {
+                i++;
+                continue;
+            }
+            balanced = false;
+        }
+    }
+
+    return { indexes, balanced };
+}
+
+/**
+ * Compares every culture value with the default value of the same key. Only values that look like
+ * composite format strings in the default culture are checked for placeholders and braces, so plain
+ * text that happens to contain a brace is not flagged. Missing or empty culture values are left to the
+ * translation status report.
+ */
+export function validateResxDocument(resxData: ResxDocument): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const defaultFile = resxData['default'];
+    if (!defaultFile) {
+        return issues;
+    }
+
+    for (const [language, file] of Object.entries(resxData)) {
+        if (language === 'default') {
+            continue;
+        }
+
+        for (const key of file.keys()) {
+            const sourceEntry = defaultFile.get(key);
+            const targetEntry = file.get(key);
+            // Images, file references and typed values are not format strings.
+            if (!sourceEntry || !targetEntry || !isStringEntry(sourceEntry) || !isStringEntry(targetEntry)) {
+                continue;
+            }
+            const source = sourceEntry.value;
+            const target = targetEntry.value;
+            if (!source || !target) {
+                continue;
+            }
+
+            const report = (kind: ValidationIssueKind, severity: ValidationSeverity, message: string) => {
+                issues.push({ key, language, kind, severity, message });
+            };
+
+            const sourceFormat = parseFormatString(source);
+            if (sourceFormat.balanced && sourceFormat.indexes.length > 0) {
+                const targetFormat = parseFormatString(target);
+                if (!targetFormat.balanced) {
+                    report('braceMismatch', 'error', `"${key}" (${language}): unbalanced or malformed braces; escape literal braces as {{ and }}.`);
+                }
+                const missing = sourceFormat.indexes.filter(i => !targetFormat.indexes.includes(i));
+                const extra = targetFormat.indexes.filter(i => !sourceFormat.indexes.includes(i));
+                if (missing.length > 0) {
+                    report('placeholderMissing', 'warning', `"${key}" (${language}): missing placeholder ${missing.map(i => `{${i}}`).join(', ')} from the default value.`);
+                }
+                if (extra.length > 0) {
+                    report('placeholderExtra', 'error', `"${key}" (${language}): placeholder ${extra.map(i => `{${i}}`).join(', ')} does not exist in the default value.`);
+                }
+            }
+
+            const whitespace: string[] = [];
+            if (/^\s/.test(source) !== /^\s/.test(target)) {
+                whitespace.push('leading');
+            }
+            if (/\s$/.test(source) !== /\s$/.test(target)) {
+                whitespace.push('trailing');
+            }
+            if (whitespace.length > 0) {
+                report('whitespaceMismatch', 'warning', `"${key}" (${language}): ${whitespace.join(' and ')} whitespace differs from the default value.`);
+            }
+        }
+    }
+
+    return issues;
+}
@@ -0,0 +1,74 @@
+import { ResxFile, isStringEntry } from './resxFile';
+import { protectText, restoreText } from './machineTranslation';
+
+/**
+ * Pseudo-localization turns default values into readable but visibly foreign text, e.g. `Save {0}` into
+ * `[Šåṽé {0} ··]`. Running the app in the pseudo-locale shows strings that are still hard-coded (no accents),
+ * concatenated (several bracket pairs) or truncated (missing closing bracket), before real translations exist.
+ */
+export interface PseudoLocalizationOptions {
+    /** Extra length to add, as a percentage of the text's length; translations often run 30-40% longer than English. */
+    expansion: number;
+    /** Wrap each value in `[` and `]` so truncation and concatenation stand out. */
+    brackets: boolean;
+}
+
+const PLAIN = [...'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ'];
+const ACCENTED = [...'åƀçðéƒĝĥîĵķļɱñöþǫŕšţûṽŵẋýžÅƁÇĐÉƑĜĤÎĴĶĻṀÑÖÞǪŔŠŢÛṼŴẊÝŽ'];
+const ACCENT_MAP = new Map(PLAIN.map((letter, i) => [letter, ACCENTED[i]]));
+const PADDING = '·';
+
+/**
+ * Pseudo-localizes one value. Placeholders, HTML tags and entities are kept as they are, and leading and
+ * trailing whitespace stays outside the brackets so placeholder validation is still satisfied.
+ */
+export function pseudoLocalize(text: string, options: PseudoLocalizationOptions): string {
+    const [, leading, core, trailing] = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+    if (!core) {
+        return text;
+    }
+
+    const { text: protectedText, tokens } = protectText(core);
+    // Markers only contain digits and brackets, so accenting letters leaves them intact.
+    const accented = [...protectedText].map(char => ACCENT_MAP.get(char) ?? char).join('');
+    const visibleLength = [...protectedText.replace(/⟦\d+⟧/g, '')].length;
+    const padding = PADDING.repeat(Math.ceil(visibleLength * Math.max(0, options.expansion) / 100));
+    const expanded = padding ? `${accented} ${padding}` : accented;
+    const result = restoreText(options.brackets ? `[${expanded}]` : expanded, tokens) ?? core;
+    return `${leading}${result}${trailing}`;
+}
+
+/**
+ * Updates `pseudo` to hold the pseudo-localized value of every string in `defaultFile`: keys are added and
+ * updated in place, and keys the default file no longer has as strings are removed. Comments are left alone.
+ * Returns whether anything changed.
+ */
+export function syncPseudoLocaleFile(pseudo: ResxFile, defaultFile: ResxFile, options: PseudoLocalizationOptions): boolean {
+    let changed = false;
+    for (const name of pseudo.keys()) {
+        const source = defaultFile.get(name);
+        if (!source || !isStringEntry(source)) {
+            changed = pseudo.remove(name) || changed;
+        }
+    }
+    for (const entry of defaultFile.entries) {
+        if (!isStringEntry(entry) || entry !== defaultFile.get(entry.name)) {
+            continue;
+        }
+        const value = pseudoLocalize(entry.value, options);
+        changed = (pseudo.has(entry.name) ? pseudo.setValue(entry.name, value) : pseudo.add({ name: entry.name, value })) || changed;
+    }
+    return changed;
+}
+
+/** A new pseudo-locale file with the default file's schema and headers, like a culture added in the editor. */
+export function createPseudoLocaleFile(defaultFile: ResxFile, options: PseudoLocalizationOptions): ResxFile {
+    const pseudo = ResxFile.parse(defaultFile.toString());
+    for (const entry of pseudo.entries) {
+        if (isStringEntry(entry)) {
+            pseudo.setComment(entry.name, '');
+        }
+    }
+    syncPseudoLocaleFile(pseudo, defaultFile, options);
+    return pseudo;
+}
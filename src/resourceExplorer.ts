@@ -0,0 +1,113 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ResourceIndex, ResxSetInfo } from './resourceIndex';
+import { getCultureCompletion } from './translationStatus';
+import { getCultureDisplayName } from './cultures';
+
+export type ResourceExplorerString = 'default' | 'cultureCount' | 'completionTooltip';
+
+type ExplorerNode =
+    | { kind: 'set'; set: ResxSetInfo }
+    | { kind: 'culture'; set: ResxSetInfo; culture: string; uri: vscode.Uri };
+
+/**
+ * Sidebar tree of every resx set in the workspace. Sets are listed by base name with their folder as
+ * description; expanding one shows the default file and each culture with its completion percentage.
+ */
+export class ResourceExplorer implements vscode.TreeDataProvider<ExplorerNode>, vscode.Disposable {
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    private readonly indexSubscription: vscode.Disposable;
+    private refreshTimer: NodeJS.Timeout | undefined;
+
+    public readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    constructor(
+        private readonly index: ResourceIndex,
+        private readonly localize: (key: ResourceExplorerString, vars?: Record<string, string>) => string,
+        private readonly displayLocale: () => string
+    ) {
+        // Typing in the editor changes the index on every keystroke; refresh the tree at most a few times a second.
+        this.indexSubscription = index.onDidChange(() => {
+            if (!this.refreshTimer) {
+                this.refreshTimer = setTimeout(() => {
+                    this.refreshTimer = undefined;
+                    this.refresh();
+                }, 500);
+            }
+        });
+    }
+
+    public dispose(): void {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        this.indexSubscription.dispose();
+        this.changeEmitter.dispose();
+    }
+
+    public refresh(): void {
+        this.changeEmitter.fire();
+    }
+
+    public async getChildren(node?: ExplorerNode): Promise<ExplorerNode[]> {
+        if (!node) {
+            const sets = await this.index.getSets();
+            return sets
+                .map(set => ({ kind: 'set' as const, set }))
+                .sort((a, b) => a.set.baseName.localeCompare(b.set.baseName) || a.set.uri.fsPath.localeCompare(b.set.uri.fsPath));
+        }
+        if (node.kind === 'set') {
+            return [
+                { kind: 'culture', set: node.set, culture: 'default', uri: node.set.uri },
+                ...[...node.set.cultures]
+                    .sort(([a], [b]) => a.localeCompare(b))
+                    .map(([culture, uri]) => ({ kind: 'culture' as const, set: node.set, culture, uri })),
+            ];
+        }
+        return [];
+    }
+
+    public async getTreeItem(node: ExplorerNode): Promise<vscode.TreeItem> {
+        const openCommand: vscode.Command = {
+            command: 'resxEditor.openEditor',
+            title: 'Open Resx Editor',
+            arguments: [node.set.uri],
+        };
+
+        if (node.kind === 'set') {
+            const item = new vscode.TreeItem(node.set.baseName, vscode.TreeItemCollapsibleState.Collapsed);
+            item.id = node.set.uri.toString();
+            item.description = path.dirname(vscode.workspace.asRelativePath(node.set.uri));
+            item.tooltip = `${vscode.workspace.asRelativePath(node.set.uri)}\n${this.localize('cultureCount', { count: String(node.set.cultures.size) })}`;
+            item.iconPath = new vscode.ThemeIcon('symbol-namespace');
+            item.resourceUri = node.set.uri;
+            item.contextValue = 'resxSet';
+            item.command = openCommand;
+            return item;
+        }
+
+        const fileName = path.basename(node.uri.fsPath);
+        const item = new vscode.TreeItem(
+            node.culture === 'default' ? this.localize('default') : node.culture,
+            vscode.TreeItemCollapsibleState.None
+        );
+        item.id = `${node.set.uri.toString()}#${node.culture}`;
+        item.iconPath = new vscode.ThemeIcon(node.culture === 'default' ? 'file' : 'globe');
+        item.contextValue = 'resxCulture';
+        item.command = openCommand;
+
+        if (node.culture === 'default') {
+            item.description = fileName;
+            item.tooltip = fileName;
+            return item;
+        }
+
+        const completion = getCultureCompletion(await this.index.loadSet(node.set), node.culture);
+        item.description = `${completion.percent}% · ${getCultureDisplayName(node.culture, this.displayLocale())}`;
+        item.tooltip = `${fileName}\n${this.localize('completionTooltip', {
+            translated: String(completion.translated),
+            total: String(completion.total),
+        })}`;
+        return item;
+    }
+}
@@ -0,0 +1,130 @@
+import * as vscode from 'vscode';
+import { ResxDocument, ResxFile } from './resxFile';
+import { groupResxSets } from './resxSet';
+import { toIdentifier } from './designerGenerator';
+
+/** A resx set found in the workspace: the neutral file and its culture files. */
+export interface ResxSetInfo {
+    uri: vscode.Uri;
+    baseName: string;
+    /** Name of the strongly typed class, e.g. `Messages` for `Messages.resx`. */
+    className: string;
+    cultures: Map<string, vscode.Uri>;
+}
+
+export const WORKSPACE_EXCLUDE = '**/{bin,obj,node_modules,.git}/**';
+
+/**
+ * Workspace-wide list of resx sets for features that work outside the Resx Editor (code navigation,
+ * the sidebar). Sets are discovered lazily and parsed files are cached until the file or its open
+ * document changes.
+ */
+export class ResourceIndex implements vscode.Disposable {
+    private sets: Promise<ResxSetInfo[]> | undefined;
+    private readonly files = new Map<string, Promise<ResxFile | undefined>>();
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    private readonly disposables: vscode.Disposable[] = [];
+
+    /** Fires when a resx file is created, deleted or changed. */
+    public readonly onDidChange = this.changeEmitter.event;
+
+    constructor() {
+        const watcher = vscode.workspace.createFileSystemWatcher('**/*.resx');
+        const invalidateSets = () => {
+            this.sets = undefined;
+            this.files.clear();
+            this.changeEmitter.fire();
+        };
+        const invalidateFile = (uri: vscode.Uri) => {
+            this.files.delete(uri.toString());
+            this.changeEmitter.fire();
+        };
+        this.disposables.push(
+            watcher,
+            this.changeEmitter,
+            watcher.onDidCreate(invalidateSets),
+            watcher.onDidDelete(invalidateSets),
+            watcher.onDidChange(invalidateFile),
+            vscode.workspace.onDidChangeTextDocument(e => {
+                if (e.document.uri.fsPath.toLowerCase().endsWith('.resx')) {
+                    invalidateFile(e.document.uri);
+                }
+            }),
+            // Closing a document with unsaved edits discards them, so fall back to the file on disk.
+            vscode.workspace.onDidCloseTextDocument(document => {
+                if (document.uri.fsPath.toLowerCase().endsWith('.resx')) {
+                    invalidateFile(document.uri);
+                }
+            }),
+            vscode.workspace.onDidChangeWorkspaceFolders(invalidateSets)
+        );
+    }
+
+    public dispose(): void {
+        vscode.Disposable.from(...this.disposables).dispose();
+    }
+
+    public getSets(): Promise<ResxSetInfo[]> {
+        if (!this.sets) {
+            this.sets = this.discoverSets();
+        }
+        return this.sets;
+    }
+
+    /**
+     * Sets for a resource class: its generated class name, or the type argument of `IStringLocalizer<T>`,
+     * which for `Resources/Controllers.HomeController.resx` is just `HomeController`.
+     */
+    public async findSetsByClassName(className: string): Promise<ResxSetInfo[]> {
+        return (await this.getSets()).filter(set => set.className === className || set.baseName.split('.').pop() === className);
+    }
+
+    /** Parsed contents of a resx file, taken from its open document when there is one. */
+    public load(uri: vscode.Uri): Promise<ResxFile | undefined> {
+        const cacheKey = uri.toString();
+        let file = this.files.get(cacheKey);
+        if (!file) {
+            file = this.read(uri);
+            this.files.set(cacheKey, file);
+        }
+        return file;
+    }
+
+    /** The set as a `ResxDocument`, keyed `'default'` plus culture names like the editor's own model. */
+    public async loadSet(set: ResxSetInfo): Promise<ResxDocument> {
+        const resxData: ResxDocument = {};
+        const neutral = await this.load(set.uri);
+        if (neutral) {
+            resxData['default'] = neutral;
+        }
+        for (const [culture, uri] of set.cultures) {
+            const file = await this.load(uri);
+            if (file) {
+                resxData[culture] = file;
+            }
+        }
+        return resxData;
+    }
+
+    private async read(uri: vscode.Uri): Promise<ResxFile | undefined> {
+        const open = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+        try {
+            const text = open ? open.getText() : Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf-8');
+            return ResxFile.parse(text);
+        } catch (error) {
+            console.error(`Error reading ${uri.fsPath}:`, error);
+            return undefined;
+        }
+    }
+
+    private async discoverSets(): Promise<ResxSetInfo[]> {
+        const uris = await vscode.workspace.findFiles('**/*.resx', WORKSPACE_EXCLUDE);
+        const byPath = new Map(uris.map(uri => [uri.fsPath, uri]));
+        return groupResxSets(uris.map(uri => uri.fsPath)).map(set => ({
+            uri: byPath.get(set.basePath)!,
+            baseName: set.baseName,
+            className: toIdentifier(set.baseName),
+            cultures: new Map([...set.cultures].map(([culture, culturePath]) => [culture, byPath.get(culturePath)!])),
+        }));
+    }
+}
@@ -0,0 +1,53 @@
+const CSHARP_KEYWORDS = new Set((
+    'abstract as base bool break byte case catch char checked class const continue decimal default ' +
+    'delegate do double else enum event explicit extern false finally fixed float for foreach goto if ' +
+    'implicit in int interface internal is lock long namespace new null object operator out override ' +
+    'params private protected public readonly ref return sbyte sealed short sizeof stackalloc static ' +
+    'string struct switch this throw true try typeof uint ulong unchecked unsafe ushort using virtual ' +
+    'void volatile while'
+).split(' '));
+
+const IDENTIFIER = /^@?[\p{L}\p{Nl}_][\p{L}\p{Nl}\p{Mn}\p{Mc}\p{Nd}\p{Pc}\p{Cf}]*$/u;
+
+export function isValidCSharpIdentifier(name: string): boolean {
+    if (!IDENTIFIER.test(name)) {
+        return false;
+    }
+    return name.startsWith('@') || !CSHARP_KEYWORDS.has(name);
+}
+
+export type KeyProblem =
+    | { kind: 'empty' }
+    | { kind: 'exists'; existing: string; languages: string[] }
+    | { kind: 'notIdentifier' };
+
+/**
+ * Checks whether `key` can be added to (or renamed into) a resx set. `existing` maps each culture to the
+ * keys it already has; a key present in any culture counts as taken so nothing is silently overwritten.
+ * Names are compared case-insensitively like ResourceManager does, except for `renaming`, the key being
+ * renamed, so its casing can still be changed.
+ */
+export function validateResourceKey(
+    key: string,
+    existing: Record<string, string[]>,
+    requireIdentifier: boolean,
+    renaming?: string
+): KeyProblem | null {
+    if (!key.trim()) {
+        return { kind: 'empty' };
+    }
+
+    const lower = key.toLowerCase();
+    const isTaken = (k: string) => k !== renaming && k.toLowerCase() === lower;
+    const languages = Object.entries(existing)
+        .filter(([, keys]) => keys.some(isTaken))
+        .map(([language]) => language);
+    if (languages.length > 0) {
+        return { kind: 'exists', existing: existing[languages[0]].find(isTaken)!, languages };
+    }
+
+    if (requireIdentifier && !isValidCSharpIdentifier(key)) {
+        return { kind: 'notIdentifier' };
+    }
+    return null;
+}
@@ -0,0 +1,169 @@
+import * as path from 'path';
+import { ResxEntry, isStringEntry } from './resxFile';
+
+/**
+ * What a `<data>` node holds, which decides how the grid shows and edits it:
+ * - `string`: plain text
+ * - `fileRef`: a `ResXFileRef` to a file next to the project, stored as `<path>;<type>[;<encoding>]`
+ * - `image`: a bitmap or icon embedded as base64 bytes
+ * - `binary`: other base64 data, e.g. a BinaryFormatter blob or a byte array
+ * - `typed`: a value a TypeConverter reads from text, e.g. `System.Int32` or `System.Drawing.Size`
+ */
+export type ResourceKind = 'string' | 'fileRef' | 'image' | 'binary' | 'typed';
+
+export interface ResourceInfo {
+    kind: ResourceKind;
+    /** Short name of the .NET type, e.g. `Bitmap` or `Int32`; for file references, the type of the referenced file. */
+    typeName: string;
+    /** Whether the value can be edited as text; typed values only when their type is one the editor can check. */
+    editable: boolean;
+}
+
+export interface FileRef {
+    /** Path as written in the .resx, relative to its folder and usually with backslashes. */
+    path: string;
+    type: string;
+    encoding?: string;
+}
+
+const FILE_REF_TYPE = 'System.Resources.ResXFileRef, System.Windows.Forms';
+const BITMAP_TYPE = 'System.Drawing.Bitmap, System.Drawing, Version=4.0.0.0, Culture=neutral, PublicKeyToken=b03f5f7f11d50a3a';
+const ICON_TYPE = 'System.Drawing.Icon, System.Drawing, Version=4.0.0.0, Culture=neutral, PublicKeyToken=b03f5f7f11d50a3a';
+const STRING_TYPE = 'System.String, mscorlib, Version=4.0.0.0, Culture=neutral, PublicKeyToken=b77a5c561934e089';
+const BYTES_TYPE = 'System.Byte[], mscorlib, Version=4.0.0.0, Culture=neutral, PublicKeyToken=b77a5c561934e089';
+
+const IMAGE_EXTENSIONS = new Set(['.png', '.jpg', '.jpeg', '.gif', '.bmp', '.tif', '.tiff']);
+const TEXT_EXTENSIONS = new Set(['.txt', '.xml', '.json', '.html', '.htm', '.css', '.js', '.csv', '.sql', '.md']);
+
+const INT = '[+-]?\\d+';
+const NUM = '[+-]?(?:\\d+\\.?\\d*|\\.\\d+)(?:[eE][+-]?\\d+)?';
+/** Comma-separated parts as TypeConverters write them for the invariant culture, e.g. `10, 20` for a Size. */
+const parts = (...items: string[]) => new RegExp(`^\\s*${items.join('\\s*,\\s*')}\\s*$`);
+const INTEGER = parts(INT);
+const NUMBER = parts(NUM);
+
+/** Types whose text form the editor can check, so their values stay editable in the grid. */
+const TYPED_VALUE_FORMATS: Record<string, RegExp> = {
+    'System.Boolean': /^\s*(true|false)\s*$/i,
+    'System.Char': /^.$/su,
+    'System.Byte': INTEGER,
+    'System.SByte': INTEGER,
+    'System.Int16': INTEGER,
+    'System.UInt16': INTEGER,
+    'System.Int32': INTEGER,
+    'System.UInt32': INTEGER,
+    'System.Int64': INTEGER,
+    'System.UInt64': INTEGER,
+    'System.Single': NUMBER,
+    'System.Double': NUMBER,
+    'System.Decimal': NUMBER,
+    'System.Drawing.Point': parts(INT, INT),
+    'System.Drawing.Size': parts(INT, INT),
+    'System.Drawing.PointF': parts(NUM, NUM),
+    'System.Drawing.SizeF': parts(NUM, NUM),
+    'System.Drawing.Rectangle': parts(INT, INT, INT, INT),
+    'System.Windows.Forms.Padding': parts(INT, INT, INT, INT),
+};
+
+function fullTypeName(type: string): string {
+    return type.split(',')[0].trim();
+}
+
+function shortTypeName(type: string): string {
+    return fullTypeName(type).split('.').pop() ?? type;
+}
+
+/** Splits a `ResXFileRef` value; undefined when it has no type part. */
+export function parseFileRef(value: string): FileRef | undefined {
+    // The type itself contains commas but no semicolons, so the parts split cleanly on `;`.
+    const [filePath, type, encoding] = value.split(';');
+    if (!filePath?.trim() || !type?.trim()) {
+        return undefined;
+    }
+    return { path: filePath.trim(), type: type.trim(), encoding: encoding?.trim() || undefined };
+}
+
+export function describeResource(entry: ResxEntry): ResourceInfo {
+    if (isStringEntry(entry)) {
+        return { kind: 'string', typeName: 'String', editable: true };
+    }
+    const type = entry.type ?? '';
+    if (fullTypeName(type) === 'System.Resources.ResXFileRef') {
+        return { kind: 'fileRef', typeName: shortTypeName(parseFileRef(entry.value)?.type ?? 'System.Object'), editable: false };
+    }
+    if (entry.mimetype) {
+        const image = /^System\.Drawing\.(Bitmap|Icon|Image)$/.test(fullTypeName(type));
+        return { kind: image ? 'image' : 'binary', typeName: type ? shortTypeName(type) : 'Object', editable: false };
+    }
+    const typeName = fullTypeName(type);
+    return { kind: 'typed', typeName: shortTypeName(type), editable: typeName in TYPED_VALUE_FORMATS };
+}
+
+/**
+ * Why `value` cannot be written to `entry`: `readOnly` for resources that are not text, `invalid` when a typed
+ * value would not convert back to its type. Undefined when the value is fine.
+ */
+export function checkResourceValue(entry: ResxEntry, value: string): 'readOnly' | 'invalid' | undefined {
+    const info = describeResource(entry);
+    if (!info.editable) {
+        return 'readOnly';
+    }
+    const format = info.kind === 'typed' ? TYPED_VALUE_FORMATS[fullTypeName(entry.type ?? '')] : undefined;
+    return format && !format.test(value) ? 'invalid' : undefined;
+}
+
+/** The bytes of a base64 `<value>`, which Visual Studio wraps over several indented lines. */
+export function decodeBase64Value(value: string): Buffer {
+    return Buffer.from(value.replace(/\s+/g, ''), 'base64');
+}
+
+/** Size of a blob for display, e.g. `512 B` or `4.2 KB`. */
+export function formatByteSize(bytes: number): string {
+    if (bytes < 1024) {
+        return `${bytes} B`;
+    }
+    const kilobytes = bytes / 1024;
+    return kilobytes < 1024 ? `${kilobytes.toFixed(1)} KB` : `${(kilobytes / 1024).toFixed(1)} MB`;
+}
+
+/** MIME type of image bytes a webview can display, recognized by their signature. */
+export function getImageMimeType(bytes: Uint8Array): string | undefined {
+    const startsWith = (...signature: number[]) => signature.every((byte, i) => bytes[i] === byte);
+    if (startsWith(0x89, 0x50, 0x4e, 0x47)) {
+        return 'image/png';
+    }
+    if (startsWith(0xff, 0xd8, 0xff)) {
+        return 'image/jpeg';
+    }
+    if (startsWith(0x47, 0x49, 0x46, 0x38)) {
+        return 'image/gif';
+    }
+    if (startsWith(0x42, 0x4d)) {
+        return 'image/bmp';
+    }
+    if (startsWith(0x00, 0x00, 0x01, 0x00)) {
+        return 'image/x-icon';
+    }
+    return undefined;
+}
+
+/**
+ * A `ResXFileRef` entry for the file at `relativePath` (relative to the .resx folder), typed by its extension
+ * the way Visual Studio's resource designer does: images as Bitmap, .ico as Icon, text files as UTF-8 strings
+ * and anything else as a byte array.
+ */
+export function createFileRefEntry(name: string, relativePath: string): ResxEntry {
+    const extension = path.extname(relativePath).toLowerCase();
+    const windowsPath = relativePath.split(path.sep).join('\\');
+    let value: string;
+    if (IMAGE_EXTENSIONS.has(extension)) {
+        value = `${windowsPath};${BITMAP_TYPE}`;
+    } else if (extension === '.ico') {
+        value = `${windowsPath};${ICON_TYPE}`;
+    } else if (TEXT_EXTENSIONS.has(extension)) {
+        value = `${windowsPath};${STRING_TYPE};utf-8`;
+    } else {
+        value = `${windowsPath};${BYTES_TYPE}`;
+    }
+    return { name, value, type: FILE_REF_TYPE };
+}
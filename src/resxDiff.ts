@@ -0,0 +1,52 @@
+import { ResxDocument } from './resxFile';
+
+export type CellChangeKind = 'added' | 'removed' | 'changed';
+
+/** How one cell differs from the committed version; `previous` holds the committed entry for removed and changed cells. */
+export interface CellChange {
+    kind: CellChangeKind;
+    previous?: { value: string; comment: string };
+}
+
+export interface ResxDiff {
+    /** Changed cells per culture and key. */
+    cells: Map<string, Map<string, CellChange>>;
+    /** Keys the committed version has in some file but no current file defines, in committed order. */
+    removedKeys: string[];
+}
+
+/**
+ * Compares the current resx set with a committed one cell by cell, on value and comment. A culture file that
+ * is new since the commit makes all of its cells added; one that has since been deleted has no column to
+ * show changes in and is skipped.
+ */
+export function diffResxDocuments(committed: ResxDocument, current: ResxDocument): ResxDiff {
+    const cells = new Map<string, Map<string, CellChange>>();
+    const currentKeys = new Set(Object.values(current).flatMap(file => file.keys()));
+    const removedKeys = new Set<string>();
+
+    for (const [language, file] of Object.entries(current)) {
+        const base = committed[language];
+        const changes = new Map<string, CellChange>();
+        for (const key of new Set([...file.keys(), ...(base?.keys() ?? [])])) {
+            const before = base?.get(key);
+            const after = file.get(key);
+            if (!before) {
+                changes.set(key, { kind: 'added' });
+                continue;
+            }
+            const previous = { value: before.value, comment: before.comment ?? '' };
+            if (!after) {
+                changes.set(key, { kind: 'removed', previous });
+                if (!currentKeys.has(key)) {
+                    removedKeys.add(key);
+                }
+            } else if (after.value !== previous.value || (after.comment ?? '') !== previous.comment) {
+                changes.set(key, { kind: 'changed', previous });
+            }
+        }
+        cells.set(language, changes);
+    }
+
+    return { cells, removedKeys: [...removedKeys] };
+}
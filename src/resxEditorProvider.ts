@@ -1,18 +1,127 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
-import { parseString, Builder } from 'xml2js';
+import { ResxDocument, ResxEntry, ResxFile, compareResourceNames, isStringEntry } from './resxFile';
+import { getCultureDisplayName, isKnownCultureName, listCultureNames, splitResxFileName } from './cultures';
+import { findCultureFiles } from './resxSet';
+import { CellState, getCellState, getCultureCompletion } from './translationStatus';
+import { ValidationIssue, ValidationSeverity, validateResxDocument } from './placeholderValidation';
+import { KeyProblem, validateResourceKey } from './resourceKeys';
+import { KeyIssue, KeyIssueFix, checkKeyConsistency } from './keyConsistency';
+import { FindReplaceOptions, Replacement, findReplacements } from './findReplace';
+import { CsvChange, CsvFormatError, diffCsvTable, exportCsv, parseCsvTable } from './csvExchange';
+import { findDesignerSettings, generateDesignerCode, toIdentifier } from './designerGenerator';
+import { ResourceIndex } from './resourceIndex';
+import { CodeIntegration } from './codeIntegration';
+import { analyzeKeyUsage } from './keyUsage';
+import { ResourceExplorer } from './resourceExplorer';
+import { XliffFormatError, XliffVersion, exportXliff, mergeXliff, parseXliff } from './xliff';
+import {
+    DictionaryTranslationProvider,
+    HttpTranslationProvider,
+    TranslationError,
+    TranslationProvider,
+    translateTexts,
+} from './machineTranslation';
+import { PseudoLocalizationOptions, createPseudoLocaleFile, syncPseudoLocaleFile } from './pseudoLocalization';
+import { loadCommittedResxSet } from './gitBaseline';
+import { CellChange, diffResxDocuments } from './resxDiff';
+import { MemoryOccurrence, TranslationMemory } from './translationMemory';
+import {
+    ResourceKind,
+    checkResourceValue,
+    createFileRefEntry,
+    decodeBase64Value,
+    describeResource,
+    formatByteSize,
+    getImageMimeType,
+    parseFileRef,
+} from './resourceTypes';
+
+interface ResxSetFile {
+    language: string;
+    document: vscode.TextDocument;
+}
+
+/** An open Resx Editor, so commands run from the palette can act on the focused grid. */
+interface EditorSession {
+    document: vscode.TextDocument;
+    /** The files of the set as last loaded. */
+    files: () => ResxSetFile[];
+    refresh: () => Promise<void>;
+    revealKey: (key: string) => void;
+    isActive: () => boolean;
+    toggleCompare: () => Promise<void>;
+}
 
-interface ResxEntry {
-    name: string;
+interface GridCell {
     value: string;
-    comment?: string;
+    comment: string;
+    state: CellState;
+    issues?: { severity: ValidationSeverity; message: string }[];
+    /** Machine translation waiting to be accepted or rejected. */
+    suggestion?: string;
+    /** Difference from the committed version while comparing with HEAD. */
+    change?: CellChange;
+    /** Set for resources that are not strings; only `editable` ones can be typed into. */
+    resource?: { kind: ResourceKind; editable: boolean };
+}
+
+/** A resource that is not a string, as the type column shows it. */
+interface GridResource {
+    kind: ResourceKind;
+    typeName: string;
+    /** Data URI of the image, embedded or referenced, when it is small enough to show. */
+    preview?: string;
+    /** Path of a referenced file, as written in the .resx. */
+    file?: string;
+}
+
+interface GridColumnHeader {
+    label: string;
+    percent: number;
+    tooltip: string;
+    suggestions: number;
+}
+
+/** Images larger than this get no preview; previews are sent to the webview with every update. */
+const MAX_PREVIEW_BYTES = 512 * 1024;
+
+/** Machine translations awaiting review, per culture and key. */
+type SuggestionMap = Map<string, Map<string, string>>;
+
+/** Posted to the webview; `columns` carries cell data only for the cultures that changed. */
+interface GridUpdate {
+    type: 'update';
+    keys: string[];
+    languages: string[];
+    headers: Record<string, GridColumnHeader>;
+    columns: Record<string, Record<string, GridCell>>;
+    /** Keys the last usage analysis found no references to. */
+    unused: string[];
+    /** Duplicate, orphan and case-colliding keys across every file of the set. */
+    keyIssues: KeyIssue[];
+    /** Whether the grid is comparing with HEAD. */
+    compare: boolean;
+    /** Keys only the committed version has; they are listed in `keys` so they can be reverted. */
+    removedKeys: string[];
+    /** Non-string resources by key, described from the default file or else the first file that has the key. */
+    resources: Record<string, GridResource>;
 }
 
-interface ResxDocument {
-    [language: string]: Map<string, ResxEntry>;
+/** The find/replace fields of `previewReplace` and `applyReplace` messages; unchecked until `toFindReplaceOptions` narrows them. */
+interface FindReplaceMessage {
+    find?: unknown;
+    replace?: unknown;
+    regex?: unknown;
+    matchCase?: unknown;
+    languages?: unknown;
+    keys?: unknown;
 }
 
+/** `resxEditor.keyOrder`: how `writeResxFile` orders the `<data>` nodes of the files it edits. */
+type KeyOrder = 'preserve' | 'alphabetical' | 'matchDefault';
+
 type UiLanguage = 'en' | 'zh-cn';
 
 type UiStringKey =
@@ -29,11 +138,147 @@ type UiStringKey =
     | 'enterNewKeyPrompt'
     | 'enterNewKeyPlaceholder'
     | 'keyCannotBeEmpty'
+    | 'keyAlreadyExists'
+    | 'keyNotIdentifier'
+    | 'renameKey'
+    | 'renamedKey'
     | 'addedNewKey'
     | 'confirmDeleteKey'
     | 'delete'
     | 'deletedKey'
-    | 'savedSuccessfully';
+    | 'savedSuccessfully'
+    | 'comments'
+    | 'commentsOff'
+    | 'commentsDefault'
+    | 'commentsAll'
+    | 'comment'
+    | 'commentPlaceholder'
+    | 'searchPlaceholder'
+    | 'matchCase'
+    | 'useRegex'
+    | 'sortHint'
+    | 'findReplace'
+    | 'findPlaceholder'
+    | 'replacePlaceholder'
+    | 'replaceScopeAllKeys'
+    | 'replaceScopeShownRows'
+    | 'replacePreview'
+    | 'replaceAll'
+    | 'replaceNoMatches'
+    | 'replaceSummary'
+    | 'replacedSummary'
+    | 'invalidRegex'
+    | 'addCulture'
+    | 'removeCulture'
+    | 'pickCultureToAdd'
+    | 'pickCultureToRemove'
+    | 'cultureAlreadyExists'
+    | 'invalidCultureName'
+    | 'prefillEmpty'
+    | 'prefillEmptyDetail'
+    | 'prefillDefault'
+    | 'prefillDefaultDetail'
+    | 'addedCulture'
+    | 'confirmRemoveCulture'
+    | 'removedCulture'
+    | 'noCulturesToRemove'
+    | 'noActiveEditor'
+    | 'csvFiles'
+    | 'exportedCsv'
+    | 'invalidCsv'
+    | 'noCsvColumns'
+    | 'pickColumnsToImport'
+    | 'commentColumn'
+    | 'csvNoChanges'
+    | 'csvPreview'
+    | 'csvAdded'
+    | 'csvChanged'
+    | 'csvRemoved'
+    | 'importedCsv'
+    | 'xliffFiles'
+    | 'xliffNeedsCulture'
+    | 'pickXliffSource'
+    | 'pickXliffTarget'
+    | 'pickXliffVersion'
+    | 'exportedXliff'
+    | 'invalidXliff'
+    | 'xliffNoTargetCulture'
+    | 'xliffNoChanges'
+    | 'xliffSourceChanged'
+    | 'xliffImportAnyway'
+    | 'xliffSkipChanged'
+    | 'xliffUnknownKeys'
+    | 'importedXliff'
+    | 'updatedDesigner'
+    | 'openInResxEditor'
+    | 'cultureCount'
+    | 'pickResxSet'
+    | 'noResxSets'
+    | 'analyzingKeyUsage'
+    | 'keyUsageSummary'
+    | 'showProblems'
+    | 'undefinedKey'
+    | 'unusedKey'
+    | 'filterUnused'
+    | 'deleteUnused'
+    | 'confirmDeleteUnused'
+    | 'deletedUnused'
+    | 'keyIssues'
+    | 'normalizedResxSet'
+    | 'translateMissing'
+    | 'translateCell'
+    | 'acceptSuggestion'
+    | 'rejectSuggestion'
+    | 'acceptAllSuggestions'
+    | 'rejectAllSuggestions'
+    | 'machineTranslated'
+    | 'filterNeedsReview'
+    | 'nothingToTranslate'
+    | 'translating'
+    | 'translationFailed'
+    | 'translatedSuggestions'
+    | 'generatedPseudoLocale'
+    | 'updatedPseudoLocale'
+    | 'compareWithHead'
+    | 'compareFailed'
+    | 'changeAdded'
+    | 'changeRemoved'
+    | 'changeChanged'
+    | 'revertCell'
+    | 'filterChanged'
+    | 'translationMemory'
+    | 'noInconsistencies'
+    | 'pickInconsistency'
+    | 'pickOccurrence'
+    | 'translationUses'
+    | 'type'
+    | 'openFile'
+    | 'readOnlyResource'
+    | 'invalidTypedValue'
+    | 'fileRefNotFound'
+    | 'addFileResource'
+    | 'addFileResourceOpenLabel'
+    | 'addedFileResources'
+    | 'nothingToNormalize'
+    | 'filterKeyIssues'
+    | 'fixRemoveDuplicates'
+    | 'fixAddToDefault'
+    | 'fixDeleteFromCulture'
+    | 'fixRenameToMatch'
+    | 'culture'
+    | 'value'
+    | 'missingValue'
+    | 'showRows'
+    | 'inCulture'
+    | 'allCultures'
+    | 'filterAll'
+    | 'filterMissing'
+    | 'filterEmpty'
+    | 'filterSame'
+    | 'filterUntranslated'
+    | 'missingPlaceholder'
+    | 'completionTooltip'
+    | 'invalidResx';
 
 const UI_STRINGS: Record<UiLanguage, Record<UiStringKey, string>> = {
     en: {
@@ -50,11 +295,147 @@ const UI_STRINGS: Record<UiLanguage, Record<UiStringKey, string>> = {
         enterNewKeyPrompt: 'Enter new key name',
         enterNewKeyPlaceholder: 'e.g., WelcomeMessage',
         keyCannotBeEmpty: 'Key name cannot be empty',
+        keyAlreadyExists: 'Key "{key}" already exists in: {languages}',
+        keyNotIdentifier: 'Key "{key}" is not a valid C# identifier, which the strongly typed resource class requires',
+        renameKey: 'Rename',
+        renamedKey: 'Renamed key {oldKey} to {newKey}',
         addedNewKey: 'Added new key: {key}',
         confirmDeleteKey: 'Are you sure you want to delete key "{key}"?',
         delete: 'Delete',
         deletedKey: 'Deleted key: {key}',
-        savedSuccessfully: 'Resx files saved successfully!'
+        savedSuccessfully: 'Resx files saved successfully!',
+        comments: 'Comments',
+        commentsOff: 'Hidden',
+        commentsDefault: 'Default only',
+        commentsAll: 'All cultures',
+        comment: 'Comment',
+        commentPlaceholder: 'Comment',
+        searchPlaceholder: 'Search keys, values and comments',
+        matchCase: 'Match Case',
+        useRegex: 'Use Regular Expression',
+        sortHint: 'Click to sort',
+        findReplace: 'Find & Replace',
+        findPlaceholder: 'Find',
+        replacePlaceholder: 'Replace',
+        replaceScopeAllKeys: 'All keys',
+        replaceScopeShownRows: 'Only rows shown in the grid',
+        replacePreview: 'Preview',
+        replaceAll: 'Replace All',
+        replaceNoMatches: 'No matches',
+        replaceSummary: '{matches} matches in {cells} cells',
+        replacedSummary: 'Replaced {matches} matches in {cells} cells',
+        invalidRegex: 'Invalid regular expression: {error}',
+        addCulture: 'Add Culture',
+        removeCulture: 'Remove Culture',
+        pickCultureToAdd: 'Select or type a culture to add (e.g. fr, de-DE, zh-Hans)',
+        pickCultureToRemove: 'Select a culture to remove',
+        cultureAlreadyExists: 'Culture {culture} already exists',
+        invalidCultureName: '"{culture}" is not a known .NET culture name',
+        prefillEmpty: 'Leave values empty',
+        prefillEmptyDetail: 'Create every key with an empty value',
+        prefillDefault: 'Copy default values',
+        prefillDefaultDetail: 'Start every key with the default culture value',
+        addedCulture: 'Added culture {culture}: {file}',
+        confirmRemoveCulture: 'Delete {file}? All {culture} translations will be removed.',
+        removedCulture: 'Removed culture {culture}',
+        noCulturesToRemove: 'This resx set has no culture files',
+        noActiveEditor: 'Open a .resx file in the Resx Editor first',
+        csvFiles: 'CSV files',
+        exportedCsv: 'Exported {count} keys to {file}',
+        invalidCsv: 'Cannot import {file}: {error}',
+        noCsvColumns: '{file} has no columns matching the cultures of this resx set',
+        pickColumnsToImport: 'Select the columns to import',
+        commentColumn: 'Comment',
+        csvNoChanges: 'The spreadsheet matches the resx files; nothing to import',
+        csvPreview: '{added} added, {changed} changed, {removed} removed. Uncheck changes you do not want to apply.',
+        csvAdded: 'Added',
+        csvChanged: 'Changed',
+        csvRemoved: 'Removed (key not in the spreadsheet)',
+        importedCsv: 'Applied {count} changes from {file}; save to write them to disk',
+        xliffFiles: 'XLIFF files',
+        xliffNeedsCulture: 'Add a culture before exporting XLIFF',
+        pickXliffSource: 'Select the source culture',
+        pickXliffTarget: 'Select the target culture',
+        pickXliffVersion: 'Select the XLIFF version',
+        exportedXliff: 'Exported {count} units to {file}',
+        invalidXliff: 'Cannot import {file}: {error}',
+        xliffNoTargetCulture: '{file} targets "{culture}", which has no resx file in this set; add the culture first',
+        xliffNoChanges: '{file} contains no new translations for {culture}',
+        xliffSourceChanged: '{count} units were translated from source text that has changed since export',
+        xliffImportAnyway: 'Import Anyway',
+        xliffSkipChanged: 'Skip Changed Units',
+        xliffUnknownKeys: '{count} units skipped because their keys no longer exist: {keys}',
+        importedXliff: 'Merged {count} translations from {file} into {culture}; save to write them to disk',
+        updatedDesigner: 'Updated {file}',
+        openInResxEditor: 'Open in Resx Editor',
+        cultureCount: '{count} cultures',
+        pickResxSet: 'Select a resx file to open',
+        noResxSets: 'No .resx files found in the workspace',
+        analyzingKeyUsage: 'Analyzing resource key usage',
+        keyUsageSummary: 'Scanned {files} files: {unused} unused keys in {sets} resx sets, {undefined} references to undefined keys',
+        showProblems: 'Show Problems',
+        undefinedKey: 'Resource key "{key}" does not exist in {className}',
+        unusedKey: 'Not referenced from C#, Razor or XAML (last usage analysis)',
+        filterUnused: 'Unused keys',
+        deleteUnused: 'Delete Unused',
+        confirmDeleteUnused: 'Delete {count} unused keys from the default file and all culture files?',
+        deletedUnused: 'Deleted {count} unused keys',
+        keyIssues: 'Key Problems',
+        normalizedResxSet: 'Normalized {count} of {total} files; save to write them to disk',
+        translateMissing: 'Translate Missing',
+        translateCell: 'Translate',
+        acceptSuggestion: 'Accept',
+        rejectSuggestion: 'Reject',
+        acceptAllSuggestions: 'Accept all machine translations',
+        rejectAllSuggestions: 'Reject all machine translations',
+        machineTranslated: 'Machine translation; review it, then accept or reject',
+        filterNeedsReview: 'Needs review',
+        nothingToTranslate: 'No missing or empty values to translate in {culture}',
+        translating: 'Translating {count} values to {culture}',
+        translationFailed: 'Machine translation failed: {error}',
+        translatedSuggestions: '{count} machine translations for {culture} are ready for review; {failed} could not be translated',
+        generatedPseudoLocale: 'Generated pseudo-locale {file}; it is regenerated whenever the default file is saved',
+        updatedPseudoLocale: 'Updated pseudo-locale {file}; save to write it to disk',
+        compareWithHead: 'Compare with HEAD',
+        compareFailed: 'Cannot compare with HEAD: {error}',
+        changeAdded: 'Added since HEAD',
+        changeRemoved: 'Removed since HEAD; committed value:',
+        changeChanged: 'Changed since HEAD; committed value:',
+        revertCell: 'Revert',
+        filterChanged: 'Changed since HEAD',
+        translationMemory: 'Translation memory',
+        noInconsistencies: 'No default value is translated more than one way into the same culture',
+        pickInconsistency: '{count} default values have divergent translations; pick one to open where it is used',
+        pickOccurrence: 'Where to open "{target}"',
+        translationUses: '{count} keys',
+        type: 'Type',
+        openFile: 'Open file',
+        readOnlyResource: '"{key}" is a {type} resource and cannot be edited as text',
+        invalidTypedValue: '"{value}" is not a valid {type} value for "{key}"',
+        fileRefNotFound: 'Referenced file not found: {file}',
+        addFileResource: 'Add File Resource',
+        addFileResourceOpenLabel: 'Add to Resources',
+        addedFileResources: 'Added {count} file resources: {keys}',
+        nothingToNormalize: 'All {total} files are already normalized',
+        filterKeyIssues: 'Key problems',
+        fixRemoveDuplicates: 'Keep Last',
+        fixAddToDefault: 'Add to Default',
+        fixDeleteFromCulture: 'Delete from Culture',
+        fixRenameToMatch: 'Rename to {key}',
+        culture: 'Culture',
+        value: 'Value',
+        missingValue: 'missing',
+        showRows: 'Show',
+        inCulture: 'in',
+        allCultures: 'any culture',
+        filterAll: 'All rows',
+        filterMissing: 'Missing in file',
+        filterEmpty: 'Empty value',
+        filterSame: 'Same as default',
+        filterUntranslated: 'Not translated',
+        missingPlaceholder: '(missing in file)',
+        completionTooltip: '{translated} of {total} keys translated',
+        invalidResx: 'The grid shows the last valid content until the resx text is fixed: {error}'
     },
     'zh-cn': {
         addNewKey: '新增 Key',
@@ -70,11 +451,147 @@ const UI_STRINGS: Record<UiLanguage, Record<UiStringKey, string>> = {
         enterNewKeyPrompt: '请输入新 Key 名称',
         enterNewKeyPlaceholder: '例如：WelcomeMessage',
         keyCannotBeEmpty: 'Key 名称不能为空',
+        keyAlreadyExists: 'Key “{key}” 已存在于：{languages}',
+        keyNotIdentifier: 'Key “{key}” 不是合法的 C# 标识符，强类型资源类要求 Key 必须是合法标识符',
+        renameKey: '重命名',
+        renamedKey: '已将 Key {oldKey} 重命名为 {newKey}',
         addedNewKey: '已新增 Key：{key}',
         confirmDeleteKey: '确定要删除 Key “{key}” 吗？',
         delete: '删除',
         deletedKey: '已删除 Key：{key}',
-        savedSuccessfully: 'Resx 文件已保存！'
+        savedSuccessfully: 'Resx 文件已保存！',
+        comments: '注释',
+        commentsOff: '隐藏',
+        commentsDefault: '仅默认',
+        commentsAll: '所有语言',
+        comment: '注释',
+        commentPlaceholder: '注释',
+        searchPlaceholder: '搜索 Key、值和注释',
+        matchCase: '区分大小写',
+        useRegex: '使用正则表达式',
+        sortHint: '点击排序',
+        findReplace: '查找替换',
+        findPlaceholder: '查找',
+        replacePlaceholder: '替换',
+        replaceScopeAllKeys: '全部 Key',
+        replaceScopeShownRows: '仅网格中显示的行',
+        replacePreview: '预览',
+        replaceAll: '全部替换',
+        replaceNoMatches: '没有匹配项',
+        replaceSummary: '{cells} 个单元格中有 {matches} 处匹配',
+        replacedSummary: '已替换 {cells} 个单元格中的 {matches} 处匹配',
+        invalidRegex: '无效的正则表达式：{error}',
+        addCulture: '添加语言',
+        removeCulture: '移除语言',
+        pickCultureToAdd: '选择或输入要添加的语言（例如 fr、de-DE、zh-Hans）',
+        pickCultureToRemove: '选择要移除的语言',
+        cultureAlreadyExists: '语言 {culture} 已存在',
+        invalidCultureName: '“{culture}” 不是已知的 .NET 区域性名称',
+        prefillEmpty: '值留空',
+        prefillEmptyDetail: '创建所有 Key，值为空',
+        prefillDefault: '复制默认值',
+        prefillDefaultDetail: '所有 Key 以默认语言的值作为初始值',
+        addedCulture: '已添加语言 {culture}：{file}',
+        confirmRemoveCulture: '确定删除 {file} 吗？{culture} 的所有翻译都将被删除。',
+        removedCulture: '已移除语言 {culture}',
+        noCulturesToRemove: '该资源集没有任何语言文件',
+        noActiveEditor: '请先在 Resx Editor 中打开一个 .resx 文件',
+        csvFiles: 'CSV 文件',
+        exportedCsv: '已导出 {count} 个 Key 到 {file}',
+        invalidCsv: '无法导入 {file}：{error}',
+        noCsvColumns: '{file} 中没有与该资源集语言匹配的列',
+        pickColumnsToImport: '选择要导入的列',
+        commentColumn: '注释',
+        csvNoChanges: '表格与 resx 文件一致，无需导入',
+        csvPreview: '新增 {added}，修改 {changed}，删除 {removed}。取消勾选不想应用的更改。',
+        csvAdded: '新增',
+        csvChanged: '修改',
+        csvRemoved: '删除（表格中没有该 Key）',
+        importedCsv: '已从 {file} 应用 {count} 处更改，保存后写入磁盘',
+        xliffFiles: 'XLIFF 文件',
+        xliffNeedsCulture: '请先添加语言再导出 XLIFF',
+        pickXliffSource: '选择源语言',
+        pickXliffTarget: '选择目标语言',
+        pickXliffVersion: '选择 XLIFF 版本',
+        exportedXliff: '已导出 {count} 个翻译单元到 {file}',
+        invalidXliff: '无法导入 {file}：{error}',
+        xliffNoTargetCulture: '{file} 的目标语言为“{culture}”，但该资源集中没有对应的 resx 文件，请先添加该语言',
+        xliffNoChanges: '{file} 中没有 {culture} 的新翻译',
+        xliffSourceChanged: '有 {count} 个翻译单元的源文本在导出后已被修改',
+        xliffImportAnyway: '仍然导入',
+        xliffSkipChanged: '跳过已修改的单元',
+        xliffUnknownKeys: '已跳过 {count} 个 Key 已不存在的翻译单元：{keys}',
+        importedXliff: '已从 {file} 合并 {count} 条翻译到 {culture}，保存后写入磁盘',
+        updatedDesigner: '已更新 {file}',
+        openInResxEditor: '在 Resx Editor 中打开',
+        cultureCount: '{count} 种语言',
+        pickResxSet: '选择要打开的 resx 文件',
+        noResxSets: '工作区中没有找到 .resx 文件',
+        analyzingKeyUsage: '正在分析资源 Key 的使用情况',
+        keyUsageSummary: '已扫描 {files} 个文件：{sets} 个资源集中有 {unused} 个未使用的 Key，{undefined} 处引用了不存在的 Key',
+        showProblems: '查看问题',
+        undefinedKey: '资源 Key “{key}” 在 {className} 中不存在',
+        unusedKey: '未被 C#、Razor 或 XAML 引用（基于上次使用分析）',
+        filterUnused: '未使用的 Key',
+        deleteUnused: '删除未使用的 Key',
+        confirmDeleteUnused: '确定从默认文件和所有语言文件中删除 {count} 个未使用的 Key 吗？',
+        deletedUnused: '已删除 {count} 个未使用的 Key',
+        keyIssues: 'Key 问题',
+        normalizedResxSet: '已规范化 {total} 个文件中的 {count} 个；保存后写入磁盘',
+        translateMissing: '翻译缺失项',
+        translateCell: '翻译',
+        acceptSuggestion: '接受',
+        rejectSuggestion: '拒绝',
+        acceptAllSuggestions: '接受全部机器翻译',
+        rejectAllSuggestions: '拒绝全部机器翻译',
+        machineTranslated: '机器翻译，请审核后接受或拒绝',
+        filterNeedsReview: '待审核',
+        nothingToTranslate: '{culture} 中没有缺失或为空的值需要翻译',
+        translating: '正在将 {count} 个值翻译为 {culture}',
+        translationFailed: '机器翻译失败：{error}',
+        translatedSuggestions: '{culture} 的 {count} 条机器翻译待审核；{failed} 条未能翻译',
+        generatedPseudoLocale: '已生成伪本地化文件 {file}；每次保存默认文件时会自动重新生成',
+        updatedPseudoLocale: '已更新伪本地化文件 {file}；保存后写入磁盘',
+        compareWithHead: '与 HEAD 比较',
+        compareFailed: '无法与 HEAD 比较：{error}',
+        changeAdded: '自 HEAD 以来新增',
+        changeRemoved: '自 HEAD 以来删除；提交的值：',
+        changeChanged: '自 HEAD 以来修改；提交的值：',
+        revertCell: '还原',
+        filterChanged: '自 HEAD 以来的更改',
+        translationMemory: '翻译记忆',
+        noInconsistencies: '没有在同一语言中存在多种译法的默认值',
+        pickInconsistency: '{count} 个默认值存在不同译法；选择一个译法以打开使用它的位置',
+        pickOccurrence: '在何处打开“{target}”',
+        translationUses: '{count} 个 Key',
+        type: '类型',
+        openFile: '打开文件',
+        readOnlyResource: '"{key}" 是 {type} 资源，不能作为文本编辑',
+        invalidTypedValue: '"{value}" 不是 "{key}" 的有效 {type} 值',
+        fileRefNotFound: '找不到引用的文件：{file}',
+        addFileResource: '添加文件资源',
+        addFileResourceOpenLabel: '添加到资源',
+        addedFileResources: '已添加 {count} 个文件资源：{keys}',
+        nothingToNormalize: '全部 {total} 个文件均已规范化',
+        filterKeyIssues: 'Key 问题',
+        fixRemoveDuplicates: '保留最后一个',
+        fixAddToDefault: '添加到默认',
+        fixDeleteFromCulture: '从该语言删除',
+        fixRenameToMatch: '重命名为 {key}',
+        culture: '语言',
+        value: '值',
+        missingValue: '缺失',
+        showRows: '显示',
+        inCulture: '语言',
+        allCultures: '任意语言',
+        filterAll: '全部行',
+        filterMissing: '文件中缺失',
+        filterEmpty: '值为空',
+        filterSame: '与默认值相同',
+        filterUntranslated: '未翻译',
+        missingPlaceholder: '（文件中缺失）',
+        completionTooltip: '已翻译 {translated} / {total} 个 Key',
+        invalidResx: 'resx 文本修正前，表格将显示最后一次有效的内容：{error}'
     }
 };
 
@@ -101,18 +618,6 @@ export class ResxEditorProvider implements vscode.CustomTextEditorProvider {
         return text;
     }
 
-    private escapeRegExp(input: string): string {
-        return input.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-    }
-
-    private tryGetCultureFromResxFileName(baseFileName: string, fileName: string): string | null {
-        // Matches: <base>.<culture>.resx where culture is BCP-47-ish, e.g. en-US, zh-Hans-CN, zh-hans-cn
-        // Keep the original casing from the filename so we don't accidentally write a different file name on save.
-        const escapedBase = this.escapeRegExp(baseFileName);
-        const match = fileName.match(new RegExp(`^${escapedBase}\\.([A-Za-z]{2,8}(?:-[A-Za-z0-9]{2,8})+)\\.resx$`, 'i'));
-        return match ? match[1] : null;
-    }
-
     public static register(context: vscode.ExtensionContext): vscode.Disposable {
         const provider = new ResxEditorProvider(context);
         const providerRegistration = vscode.window.registerCustomEditorProvider(
@@ -125,9 +630,78 @@ export class ResxEditorProvider implements vscode.CustomTextEditorProvider {
                 supportsMultipleEditorsPerDocument: false,
             }
         );
-        return providerRegistration;
+        const commandRegistrations = [
+            vscode.commands.registerCommand('resxEditor.addCulture', () => provider.runOnActiveSession(session => provider.addCulture(session))),
+            vscode.commands.registerCommand('resxEditor.removeCulture', () => provider.runOnActiveSession(session => provider.removeCulture(session))),
+            vscode.commands.registerCommand('resxEditor.export', () => provider.runOnActiveSession(session => provider.exportCsv(session))),
+            vscode.commands.registerCommand('resxEditor.import', () => provider.runOnActiveSession(session => provider.importCsv(session))),
+            vscode.commands.registerCommand('resxEditor.exportXliff', () => provider.runOnActiveSession(session => provider.exportXliff(session))),
+            vscode.commands.registerCommand('resxEditor.importXliff', () => provider.runOnActiveSession(session => provider.importXliff(session))),
+            vscode.commands.registerCommand('resxEditor.analyzeKeyUsage', () => provider.analyzeKeyUsage()),
+            vscode.commands.registerCommand('resxEditor.translationConsistency', () => provider.showConsistencyReport()),
+            vscode.commands.registerCommand('resxEditor.normalize', () => provider.runOnActiveSession(session => provider.normalizeResxSet(session))),
+            vscode.commands.registerCommand('resxEditor.compareWithHead', () => provider.runOnActiveSession(session => session.toggleCompare())),
+            vscode.commands.registerCommand('resxEditor.generatePseudoLocale', () => provider.runOnActiveSession(session => provider.generatePseudoLocale(session))),
+            vscode.commands.registerCommand('resxEditor.addFileResource', () => provider.runOnActiveSession(session => provider.addFileResources(session))),
+        ];
+        const codeIntegration = CodeIntegration.register(provider.index, (uri, key) => provider.queueReveal(uri, key), () => {
+            const uiLanguage = provider.resolveUiLanguage();
+            return {
+                openInResxEditor: provider.t(uiLanguage, 'openInResxEditor'),
+                culture: provider.t(uiLanguage, 'culture'),
+                defaultCulture: provider.t(uiLanguage, 'default'),
+                value: provider.t(uiLanguage, 'value'),
+                missing: provider.t(uiLanguage, 'missingValue'),
+            };
+        });
+        const explorer = new ResourceExplorer(
+            provider.index,
+            (key, vars) => provider.t(provider.resolveUiLanguage(), key, vars),
+            () => provider.resolveUiLanguage() === 'zh-cn' ? 'zh-CN' : 'en'
+        );
+        const explorerView = vscode.window.createTreeView('resxEditor.resources', { treeDataProvider: explorer, showCollapseAll: true });
+        const openCommand = vscode.commands.registerCommand('resxEditor.openEditor', (uri?: vscode.Uri) => provider.openEditor(uri));
+        const refreshCommand = vscode.commands.registerCommand('resxEditor.refreshResources', () => explorer.refresh());
+        const revealCommand = vscode.commands.registerCommand('resxEditor.revealKey', async (uri: string, key: string) => {
+            const target = vscode.Uri.parse(uri);
+            provider.queueReveal(target, key);
+            await vscode.commands.executeCommand('vscode.openWith', target, 'resxEditor.editor');
+        });
+        const memorySubscription = provider.index.onDidChange(() => {
+            provider.translationMemory = undefined;
+        });
+        return vscode.Disposable.from(
+            providerRegistration,
+            provider.diagnostics,
+            provider.usageDiagnostics,
+            provider.index,
+            codeIntegration,
+            explorer,
+            explorerView,
+            openCommand,
+            refreshCommand,
+            revealCommand,
+            memorySubscription,
+            ...commandRegistrations
+        );
     }
 
+    private readonly diagnostics = vscode.languages.createDiagnosticCollection('resx');
+    private readonly usageDiagnostics = vscode.languages.createDiagnosticCollection('resx-usage');
+    private readonly index = new ResourceIndex();
+    /** Unused keys per resx set from the last usage analysis, keyed by the default file URI. */
+    private unusedKeys = new Map<string, string[]>();
+    private activeSession: EditorSession | undefined;
+    private readonly sessions = new Map<string, EditorSession>();
+    /** Default file key order produced by an edit in progress, so culture files in the same edit can follow it. */
+    private readonly pendingDefaultOrder = new WeakMap<vscode.WorkspaceEdit, string[]>();
+    /** Key to scroll to once the editor for a URI opens, e.g. after go-to-definition from C#. */
+    private pendingReveal: { uri: string; key: string; expires: number } | undefined;
+    /** Translations of every resx set in the workspace; rebuilt on the next lookup after any resx file changes. */
+    private translationMemory: Promise<TranslationMemory> | undefined;
+    /** Previews of files referenced by `ResXFileRef` entries, by path, kept while the file's mtime is unchanged. */
+    private readonly filePreviews = new Map<string, { mtimeMs: number; preview?: string }>();
+
     constructor(private readonly context: vscode.ExtensionContext) {}
 
     public async resolveCustomTextEditor(
@@ -137,13 +711,106 @@ export class ResxEditorProvider implements vscode.CustomTextEditorProvider {
     ): Promise<void> {
         webviewPanel.webview.options = {
             enableScripts: true,
+            localResourceRoots: [vscode.Uri.joinPath(this.context.extensionUri, 'media')],
         };
 
-        const updateWebview = async () => {
-            const resxData = await this.loadResxFiles(document.uri);
-            const uiLanguage = this.resolveUiLanguage();
-            webviewPanel.webview.html = this.getHtmlForWebview(webviewPanel.webview, resxData);
-            // Note: uiLanguage is embedded into HTML via getHtmlForWebview; re-render updates UI.
+        let resxSet = await this.openResxSet(document);
+        // Nothing reaches the culture files until a suggestion is accepted; closing the editor discards the rest.
+        const suggestions: SuggestionMap = new Map();
+        // Committed files of the set while comparing with HEAD; read once when the mode is turned on.
+        let baseline: ResxDocument | undefined;
+
+        // Sends fresh data for `languages` (all cultures when omitted) without re-rendering the webview.
+        const updateWebview = async (languages?: Set<string>) => {
+            const previousLanguages = resxSet.map(f => f.language).join('\u0000');
+            resxSet = await this.openResxSet(document);
+            const resxData = await this.loadResxFiles(resxSet);
+            const issues = validateResxDocument(resxData);
+            const keyIssues = checkKeyConsistency(resxData);
+            this.updateDiagnostics(resxSet, resxData, issues, keyIssues);
+
+            // Cell states and issues of every culture are relative to the default, so a default change refreshes all.
+            const refreshAll = !languages || languages.has('default') || resxSet.map(f => f.language).join('\u0000') !== previousLanguages;
+            const changed = refreshAll ? resxSet.map(f => f.language) : Array.from(languages!);
+            await webviewPanel.webview.postMessage(
+                this.buildGridUpdate(
+                    resxData, issues, keyIssues, changed, this.unusedKeys.get(document.uri.toString()) ?? [], suggestions, baseline,
+                    this.describeGridResources(document, resxData)
+                )
+            );
+        };
+
+        const setCompareMode = async (enabled: boolean) => {
+            baseline = undefined;
+            if (enabled) {
+                try {
+                    baseline = await loadCommittedResxSet(resxSet.map(f => ({ language: f.language, path: f.document.uri.fsPath })));
+                } catch (error) {
+                    vscode.window.showErrorMessage(this.t(this.resolveUiLanguage(), 'compareFailed', { error: error instanceof Error ? error.message : String(error) }));
+                }
+            }
+            await updateWebview();
+        };
+
+        // UI strings are embedded in the HTML, so a UI language change re-renders; the webview then asks for data.
+        const renderWebview = () => {
+            webviewPanel.webview.html = this.getHtmlForWebview(webviewPanel.webview);
+        };
+
+        const session: EditorSession = {
+            document,
+            files: () => resxSet,
+            refresh: () => updateWebview(),
+            revealKey: key => {
+                webviewPanel.webview.postMessage({ type: 'revealKey', key });
+            },
+            isActive: () => webviewPanel.active,
+            toggleCompare: () => setCompareMode(!baseline),
+        };
+        this.sessions.set(document.uri.toString(), session);
+        if (webviewPanel.active) {
+            this.activeSession = session;
+        }
+        // Set once the webview script listens; a reveal posted before that would be lost.
+        let webviewReady = false;
+        const viewStateSubscription = webviewPanel.onDidChangeViewState(e => {
+            if (e.webviewPanel.active) {
+                this.activeSession = session;
+                const pending = webviewReady ? this.takePendingReveal(document.uri) : undefined;
+                if (pending) {
+                    session.revealKey(pending);
+                }
+            }
+        });
+
+        let pendingLanguages = new Set<string>();
+        let pendingTimer: NodeJS.Timeout | undefined;
+        // Typing in the text editor leaves the XML invalid for a while; report that once, not on every keystroke.
+        let reportedInvalid = false;
+        const scheduleUpdate = (language: string) => {
+            pendingLanguages.add(language);
+            if (pendingTimer) {
+                return;
+            }
+            pendingTimer = setTimeout(() => {
+                const languages = pendingLanguages;
+                pendingLanguages = new Set<string>();
+                pendingTimer = undefined;
+                updateWebview(languages).then(
+                    () => {
+                        reportedInvalid = false;
+                    },
+                    error => {
+                        // The cultures that changed are refreshed together once the text parses again.
+                        languages.forEach(l => pendingLanguages.add(l));
+                        if (!reportedInvalid) {
+                            reportedInvalid = true;
+                            const message = error instanceof Error ? error.message : String(error);
+                            vscode.window.showWarningMessage(this.t(this.resolveUiLanguage(), 'invalidResx', { error: message }));
+                        }
+                    }
+                );
+            }, 50);
         };
 
         webviewPanel.webview.onDidReceiveMessage(
@@ -151,8 +818,138 @@ export class ResxEditorProvider implements vscode.CustomTextEditorProvider {
                 try {
                     console.log('Received message:', message);
                     switch (message.type) {
+                        case 'ready': {
+                            webviewReady = true;
+                            await updateWebview();
+                            const pending = this.takePendingReveal(document.uri);
+                            if (pending) {
+                                session.revealKey(pending);
+                            }
+                            return;
+                        }
+                        case 'updateValue':
+                            // Typing over a suggestion replaces it.
+                            suggestions.get(String(message.language))?.delete(String(message.key));
+                            if (!await this.updateValue(resxSet, String(message.key), String(message.language), String(message.value ?? ''))) {
+                                // Put the stored value back into the grid.
+                                await updateWebview(new Set([String(message.language)]));
+                            }
+                            return;
+                        case 'translateMissing': {
+                            const language = String(message.language);
+                            await this.translateMissing(resxSet, suggestions, language, Array.isArray(message.keys) ? message.keys.map(String) : undefined);
+                            await updateWebview(new Set([language]));
+                            return;
+                        }
+                        case 'acceptSuggestions':
+                        case 'rejectSuggestions': {
+                            const language = String(message.language);
+                            const taken = this.takeSuggestions(suggestions, language, Array.isArray(message.keys) ? message.keys.map(String) : undefined);
+                            if (message.type === 'acceptSuggestions') {
+                                await this.acceptSuggestions(resxSet, language, taken);
+                            }
+                            await updateWebview(new Set([language]));
+                            return;
+                        }
+                        case 'updateComment':
+                            await this.updateComment(resxSet, String(message.key), String(message.language), String(message.comment ?? ''));
+                            return;
+                        case 'previewReplace': {
+                            const uiLanguagePreview = this.resolveUiLanguage();
+                            let replacements: Replacement[];
+                            try {
+                                replacements = findReplacements(await this.loadResxFiles(resxSet), this.toFindReplaceOptions(message));
+                            } catch (error) {
+                                await webviewPanel.webview.postMessage({
+                                    type: 'replacePreview',
+                                    error: this.t(uiLanguagePreview, 'invalidRegex', { error: String((error as Error).message ?? error) }),
+                                });
+                                return;
+                            }
+                            await webviewPanel.webview.postMessage({
+                                type: 'replacePreview',
+                                replacements,
+                                summary: replacements.length === 0
+                                    ? this.t(uiLanguagePreview, 'replaceNoMatches')
+                                    : this.t(uiLanguagePreview, 'replaceSummary', this.countReplacements(replacements)),
+                            });
+                            return;
+                        }
+                        case 'applyReplace': {
+                            const uiLanguageReplace = this.resolveUiLanguage();
+                            let replacements: Replacement[];
+                            try {
+                                replacements = await this.replaceAll(resxSet, this.toFindReplaceOptions(message));
+                            } catch (error) {
+                                if (!(error instanceof SyntaxError)) {
+                                    throw error;
+                                }
+                                await webviewPanel.webview.postMessage({
+                                    type: 'replacePreview',
+                                    error: this.t(uiLanguageReplace, 'invalidRegex', { error: error.message }),
+                                });
+                                return;
+                            }
+                            vscode.window.showInformationMessage(
+                                this.t(uiLanguageReplace, 'replacedSummary', this.countReplacements(replacements))
+                            );
+                            await webviewPanel.webview.postMessage({ type: 'replacePreview', replacements: [], summary: '' });
+                            return;
+                        }
+                        case 'requestAddCulture':
+                            await this.addCulture(session);
+                            return;
+                        case 'requestRemoveCulture':
+                            await this.removeCulture(session);
+                            return;
+                        case 'lookupMemory': {
+                            const key = String(message.key);
+                            const language = String(message.language);
+                            await webviewPanel.webview.postMessage({
+                                type: 'memoryMatches',
+                                key,
+                                language,
+                                matches: await this.lookupTranslationMemory(document, key, language),
+                            });
+                            return;
+                        }
+                        case 'setCompareMode':
+                            await setCompareMode(!!message.enabled);
+                            return;
+                        case 'revertCell':
+                            if (baseline) {
+                                await this.revertCell(resxSet, baseline, String(message.key), String(message.language));
+                            }
+                            return;
+                        case 'openFileRef':
+                            await this.openFileRef(resxSet, String(message.key), String(message.language ?? 'default'));
+                            return;
+                        case 'requestAddFileResource':
+                            await this.addFileResources(session);
+                            return;
+                        case 'fixKeyIssue':
+                            await this.fixKeyIssue(resxSet, String(message.fix) as KeyIssueFix, String(message.key), String(message.language), message.other === undefined ? undefined : String(message.other));
+                            return;
+                        case 'renameKey': {
+                            const uiLanguageRename = this.resolveUiLanguage();
+                            const oldKey = String(message.oldKey);
+                            const newKey = String(message.newKey ?? '').trim();
+                            if (oldKey === newKey) {
+                                return;
+                            }
+                            const problem = validateResourceKey(newKey, await this.getExistingKeys(resxSet), await this.hasStronglyTypedResources(document), oldKey);
+                            if (problem) {
+                                vscode.window.showErrorMessage(this.describeKeyProblem(uiLanguageRename, newKey, problem));
+                                // Put the old name back into the grid.
+                                await updateWebview();
+                                return;
+                            }
+                            await this.renameKey(resxSet, oldKey, newKey);
+                            vscode.window.showInformationMessage(this.t(uiLanguageRename, 'renamedKey', { oldKey, newKey }));
+                            return;
+                        }
                         case 'save':
-                            await this.saveResxFiles(document.uri, message.data);
+                            await this.saveResxFiles(resxSet);
                             return;
                         case 'setUiLanguage': {
                             const value = String(message.value ?? 'auto');
@@ -163,24 +960,23 @@ export class ResxEditorProvider implements vscode.CustomTextEditorProvider {
                                 next,
                                 vscode.ConfigurationTarget.Global
                             );
-                            await updateWebview();
+                            renderWebview();
                             return;
                         }
                         case 'requestAddRow':
                             const uiLanguage = this.resolveUiLanguage();
+                            const existingKeys = await this.getExistingKeys(resxSet);
+                            const requireIdentifier = await this.hasStronglyTypedResources(document);
                             const key = await vscode.window.showInputBox({
                                 prompt: this.t(uiLanguage, 'enterNewKeyPrompt'),
                                 placeHolder: this.t(uiLanguage, 'enterNewKeyPlaceholder'),
                                 validateInput: (value) => {
-                                    if (!value || !value.trim()) {
-                                        return this.t(uiLanguage, 'keyCannotBeEmpty');
-                                    }
-                                    return null;
+                                    const problem = validateResourceKey(value.trim(), existingKeys, requireIdentifier);
+                                    return problem ? this.describeKeyProblem(uiLanguage, value.trim(), problem) : null;
                                 }
                             });
                             if (key) {
-                                await this.addNewRow(document.uri, key.trim());
-                                await updateWebview();
+                                await this.addNewRow(resxSet, key.trim());
                                 vscode.window.showInformationMessage(this.t(uiLanguage, 'addedNewKey', { key }));
                             }
                             return;
@@ -192,11 +988,29 @@ export class ResxEditorProvider implements vscode.CustomTextEditorProvider {
                                 this.t(uiLanguageDelete, 'delete')
                             );
                             if (result === this.t(uiLanguageDelete, 'delete')) {
-                                await this.deleteRow(document.uri, message.key);
-                                await updateWebview();
+                                await this.deleteRows(resxSet, [String(message.key)]);
                                 vscode.window.showInformationMessage(this.t(uiLanguageDelete, 'deletedKey', { key: String(message.key) }));
                             }
                             return;
+                        case 'requestDeleteUnused': {
+                            const uiLanguageUnused = this.resolveUiLanguage();
+                            const unused = this.unusedKeys.get(document.uri.toString()) ?? [];
+                            if (unused.length === 0) {
+                                return;
+                            }
+                            const confirm = await vscode.window.showWarningMessage(
+                                this.t(uiLanguageUnused, 'confirmDeleteUnused', { count: String(unused.length) }),
+                                { modal: true, detail: unused.slice(0, 30).join(', ') + (unused.length > 30 ? ', …' : '') },
+                                this.t(uiLanguageUnused, 'delete')
+                            );
+                            if (confirm === this.t(uiLanguageUnused, 'delete')) {
+                                await this.deleteRows(resxSet, unused);
+                                this.unusedKeys.delete(document.uri.toString());
+                                await updateWebview();
+                                vscode.window.showInformationMessage(this.t(uiLanguageUnused, 'deletedUnused', { count: String(unused.length) }));
+                            }
+                            return;
+                        }
                     }
                 } catch (error) {
                     vscode.window.showErrorMessage(`Error: ${error}`);
@@ -205,711 +1019,1669 @@ export class ResxEditorProvider implements vscode.CustomTextEditorProvider {
             }
         );
 
-        await updateWebview();
+        renderWebview();
 
         const configSubscription = vscode.workspace.onDidChangeConfiguration(e => {
             if (e.affectsConfiguration('resxEditor.uiLanguage')) {
-                updateWebview();
+                renderWebview();
             }
         });
 
         const changeDocumentSubscription = vscode.workspace.onDidChangeTextDocument(e => {
-            if (e.document.uri.toString() === document.uri.toString()) {
-                updateWebview();
+            const file = resxSet.find(f => f.document.uri.toString() === e.document.uri.toString());
+            // The dirty marker of `applyGridEdit` changes nothing, so it must not refresh every culture column.
+            const onlyMarker = e.contentChanges.every(c => c.rangeOffset === 0 && c.rangeLength === 1 && c.text.length === 1);
+            if (e.contentChanges.length > 0 && file && !onlyMarker) {
+                scheduleUpdate(file.language);
+            }
+        });
+
+        // Ctrl+S on the grid saves the base document; carry the sibling culture files along with it.
+        const saveDocumentSubscription = vscode.workspace.onDidSaveTextDocument(saved => {
+            if (saved.uri.toString() === document.uri.toString()) {
+                // Regenerate the pseudo-locale first so it is saved along with the other culture files.
+                this.updatePseudoLocale(resxSet, document)
+                    .catch(error => {
+                        vscode.window.showErrorMessage(`Error: ${error}`);
+                        console.error('Error regenerating pseudo-locale:', error);
+                    })
+                    .then(() => this.saveResxFiles(resxSet, false))
+                    .catch(error => {
+                        vscode.window.showErrorMessage(`Error: ${error}`);
+                        console.error('Error saving culture files:', error);
+                    });
+                this.updateDesignerFile(document).catch(error => {
+                    vscode.window.showErrorMessage(`Error: ${error}`);
+                    console.error('Error generating Designer file:', error);
+                });
             }
         });
 
         webviewPanel.onDidDispose(() => {
+            if (pendingTimer) {
+                clearTimeout(pendingTimer);
+            }
+            if (this.activeSession === session) {
+                this.activeSession = undefined;
+            }
+            this.sessions.delete(document.uri.toString());
+            viewStateSubscription.dispose();
+            for (const file of resxSet) {
+                this.diagnostics.delete(file.document.uri);
+            }
             changeDocumentSubscription.dispose();
+            saveDocumentSubscription.dispose();
             configSubscription.dispose();
         });
     }
 
-    private async loadResxFiles(baseUri: vscode.Uri): Promise<ResxDocument> {
-        const basePath = baseUri.fsPath;
-        const dir = path.dirname(basePath);
-        const baseFileName = path.basename(basePath, '.resx');
-        
-        const resxFiles: ResxDocument = {};
-        const files = fs.readdirSync(dir);
-        
-        // Load default file
-        const defaultContent = await this.parseResxFile(basePath);
-        resxFiles['default'] = defaultContent;
+    /**
+     * Scrolls the Resx Editor of `uri` to `key`: now if it is the active editor, otherwise as soon as it opens
+     * or is brought to the front, so a grid in the background never moves on its own.
+     */
+    private queueReveal(uri: vscode.Uri, key: string): void {
+        const session = this.sessions.get(uri.toString());
+        if (session?.isActive()) {
+            session.revealKey(key);
+            return;
+        }
+        // Expire quickly: go-to-definition is also resolved for Ctrl+hover previews and Peek Definition, which never open the editor.
+        this.pendingReveal = { uri: uri.toString(), key, expires: Date.now() + 5000 };
+    }
 
-        // Load language-specific files
-        for (const file of files) {
-            const language = this.tryGetCultureFromResxFileName(baseFileName, file);
-            if (language) {
-                const filePath = path.join(dir, file);
-                const content = await this.parseResxFile(filePath);
-                resxFiles[language] = content;
-            }
+    private takePendingReveal(uri: vscode.Uri): string | undefined {
+        const pending = this.pendingReveal;
+        if (!pending || pending.uri !== uri.toString()) {
+            return undefined;
         }
+        this.pendingReveal = undefined;
+        return pending.expires >= Date.now() ? pending.key : undefined;
+    }
 
-        return resxFiles;
+    /**
+     * Opens the grid for a resx set. Without a URI (command palette), the active .resx text editor is
+     * used, otherwise the user picks one of the workspace's sets.
+     */
+    private async openEditor(uri?: vscode.Uri): Promise<void> {
+        const uiLanguage = this.resolveUiLanguage();
+        let target = uri instanceof vscode.Uri ? uri : undefined;
+        const activeDocument = vscode.window.activeTextEditor?.document;
+        if (!target && activeDocument?.uri.fsPath.toLowerCase().endsWith('.resx')) {
+            target = activeDocument.uri;
+        }
+        if (!target) {
+            const sets = await this.index.getSets();
+            if (sets.length === 0) {
+                vscode.window.showInformationMessage(this.t(uiLanguage, 'noResxSets'));
+                return;
+            }
+            const picked = await vscode.window.showQuickPick(
+                sets.map(set => ({
+                    label: set.baseName,
+                    description: vscode.workspace.asRelativePath(set.uri),
+                    detail: [...set.cultures.keys()].join(', '),
+                    uri: set.uri,
+                })),
+                { placeHolder: this.t(uiLanguage, 'pickResxSet'), matchOnDescription: true }
+            );
+            target = picked?.uri;
+        }
+        if (target) {
+            await vscode.commands.executeCommand('vscode.openWith', target, 'resxEditor.editor');
+        }
     }
 
-    private async parseResxFile(filePath: string): Promise<Map<string, ResxEntry>> {
-        const content = fs.readFileSync(filePath, 'utf-8');
-        const entries = new Map<string, ResxEntry>();
+    /** Scans the workspace for key references, then marks unused keys in open editors and reports undefined ones. */
+    private async analyzeKeyUsage(): Promise<void> {
+        const uiLanguage = this.resolveUiLanguage();
+        const report = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: this.t(uiLanguage, 'analyzingKeyUsage'), cancellable: true },
+            async (_progress, token) => {
+                const result = await analyzeKeyUsage(this.index, token);
+                return token.isCancellationRequested ? undefined : result;
+            }
+        );
+        if (!report) {
+            return;
+        }
+
+        this.unusedKeys = report.unused;
+        this.usageDiagnostics.clear();
+        const byFile = new Map<string, { uri: vscode.Uri; diagnostics: vscode.Diagnostic[] }>();
+        for (const reference of report.undefinedReferences) {
+            const diagnostic = new vscode.Diagnostic(
+                reference.range,
+                this.t(uiLanguage, 'undefinedKey', { key: reference.key, className: reference.className }),
+                vscode.DiagnosticSeverity.Warning
+            );
+            diagnostic.source = 'resx';
+            const entry = byFile.get(reference.uri.toString()) ?? { uri: reference.uri, diagnostics: [] };
+            entry.diagnostics.push(diagnostic);
+            byFile.set(reference.uri.toString(), entry);
+        }
+        for (const { uri, diagnostics } of byFile.values()) {
+            this.usageDiagnostics.set(uri, diagnostics);
+        }
+        for (const session of this.sessions.values()) {
+            await session.refresh();
+        }
 
-        return new Promise((resolve, reject) => {
-            parseString(content, (err, result) => {
-                if (err) {
-                    reject(err);
-                    return;
-                }
+        const unusedCount = [...report.unused.values()].reduce((sum, keys) => sum + keys.length, 0);
+        const showProblems = this.t(uiLanguage, 'showProblems');
+        const choice = await vscode.window.showInformationMessage(
+            this.t(uiLanguage, 'keyUsageSummary', {
+                files: String(report.scannedFiles),
+                unused: String(unusedCount),
+                sets: String(report.unused.size),
+                undefined: String(report.undefinedReferences.length),
+            }),
+            ...(report.undefinedReferences.length > 0 ? [showProblems] : [])
+        );
+        if (choice === showProblems) {
+            await vscode.commands.executeCommand('workbench.actions.view.problems');
+        }
+    }
 
-                if (result.root && result.root.data) {
-                    for (const data of result.root.data) {
-                        const name = data.$.name;
-                        const value = data.value ? data.value[0] : '';
-                        const comment = data.comment ? data.comment[0] : '';
-                        entries.set(name, { name, value, comment });
-                    }
-                }
+    private async runOnActiveSession(action: (session: EditorSession) => Promise<void>): Promise<void> {
+        if (!this.activeSession) {
+            vscode.window.showErrorMessage(this.t(this.resolveUiLanguage(), 'noActiveEditor'));
+            return;
+        }
+        try {
+            await action(this.activeSession);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Error: ${error}`);
+            console.error('Error running command:', error);
+        }
+    }
+
+    private getCultureFileUri(document: vscode.TextDocument, culture: string): vscode.Uri {
+        const baseFileName = path.basename(document.uri.fsPath, '.resx');
+        return vscode.Uri.joinPath(document.uri, '..', `${baseFileName}.${culture}.resx`);
+    }
 
-                resolve(entries);
+    /** Creates `<base>.<culture>.resx` from the default file, keeping its schema and headers, as an undoable edit. */
+    private async addCulture(session: EditorSession): Promise<void> {
+        const uiLanguage = this.resolveUiLanguage();
+        const displayLocale = uiLanguage === 'zh-cn' ? 'zh-CN' : 'en';
+        const resxSet = await this.openResxSet(session.document);
+        const existing = new Set(resxSet.map(f => f.language.toLowerCase()));
+
+        const culture = await new Promise<string | undefined>(resolve => {
+            const quickPick = vscode.window.createQuickPick();
+            quickPick.placeholder = this.t(uiLanguage, 'pickCultureToAdd');
+            quickPick.matchOnDescription = true;
+            const knownItems = listCultureNames()
+                .filter(name => !existing.has(name.toLowerCase()))
+                .map(name => ({ label: name, description: getCultureDisplayName(name, displayLocale) }));
+            quickPick.items = knownItems;
+            // Allow typing any valid culture name, not only the ones listed.
+            quickPick.onDidChangeValue(value => {
+                const typed = value.trim();
+                const listed = knownItems.some(item => item.label.toLowerCase() === typed.toLowerCase());
+                quickPick.items = typed && !listed && isKnownCultureName(typed)
+                    ? [{ label: typed, description: getCultureDisplayName(typed, displayLocale) }, ...knownItems]
+                    : knownItems;
+            });
+            quickPick.onDidAccept(() => {
+                resolve(quickPick.selectedItems[0]?.label ?? (quickPick.value.trim() || undefined));
+                quickPick.hide();
             });
+            quickPick.onDidHide(() => {
+                resolve(undefined);
+                quickPick.dispose();
+            });
+            quickPick.show();
         });
-    }
+        if (!culture) {
+            return;
+        }
+        if (!isKnownCultureName(culture)) {
+            vscode.window.showErrorMessage(this.t(uiLanguage, 'invalidCultureName', { culture }));
+            return;
+        }
+        if (existing.has(culture.toLowerCase())) {
+            vscode.window.showErrorMessage(this.t(uiLanguage, 'cultureAlreadyExists', { culture }));
+            return;
+        }
 
-    private async saveResxFiles(baseUri: vscode.Uri, data: any): Promise<void> {
-        const basePath = baseUri.fsPath;
-        const dir = path.dirname(basePath);
-        const baseFileName = path.basename(basePath, '.resx');
+        const prefill = await vscode.window.showQuickPick(
+            [
+                { label: this.t(uiLanguage, 'prefillEmpty'), detail: this.t(uiLanguage, 'prefillEmptyDetail'), copy: false },
+                { label: this.t(uiLanguage, 'prefillDefault'), detail: this.t(uiLanguage, 'prefillDefaultDetail'), copy: true },
+            ],
+            { placeHolder: culture }
+        );
+        if (!prefill) {
+            return;
+        }
 
-        for (const [language, entries] of Object.entries(data)) {
-            let filePath: string;
-            if (language === 'default') {
-                filePath = basePath;
+        // Non-string resources (images, file references) stay in the neutral file only.
+        const resx = ResxFile.parse(session.document.getText());
+        for (const entry of resx.entries) {
+            if (!isStringEntry(entry)) {
+                resx.remove(entry.name);
             } else {
-                filePath = path.join(dir, `${baseFileName}.${language}.resx`);
+                resx.setValue(entry.name, prefill.copy ? entry.value : '');
+                resx.setComment(entry.name, '');
             }
+        }
 
-            await this.writeResxFile(filePath, entries as any);
+        const uri = this.getCultureFileUri(session.document, culture);
+        const edit = new vscode.WorkspaceEdit();
+        edit.createFile(uri, { ignoreIfExists: false, contents: Buffer.from(resx.toString(), 'utf-8') });
+        if (!await vscode.workspace.applyEdit(edit)) {
+            return;
         }
 
-        const uiLanguage = this.resolveUiLanguage();
-        vscode.window.showInformationMessage(this.t(uiLanguage, 'savedSuccessfully'));
+        await session.refresh();
+        vscode.window.showInformationMessage(this.t(uiLanguage, 'addedCulture', { culture, file: path.basename(uri.fsPath) }));
     }
 
-    private async writeResxFile(filePath: string, entries: Record<string, ResxEntry>): Promise<void> {
-        const dataArray = Object.values(entries).map(entry => {
-            const dataNode: any = {
-                $: { name: entry.name, 'xml:space': 'preserve' },
-                value: [entry.value]
-            };
-            if (entry.comment) {
-                dataNode.comment = [entry.comment];
-            }
-            return dataNode;
-        });
+    private async removeCulture(session: EditorSession, culture?: string): Promise<void> {
+        const uiLanguage = this.resolveUiLanguage();
+        const displayLocale = uiLanguage === 'zh-cn' ? 'zh-CN' : 'en';
+        const cultureFiles = (await this.openResxSet(session.document)).filter(f => f.language !== 'default');
+        if (cultureFiles.length === 0) {
+            vscode.window.showInformationMessage(this.t(uiLanguage, 'noCulturesToRemove'));
+            return;
+        }
 
-        const xmlObj = {
-            root: {
-                $: {
-                    'xmlns:xsd': 'http://www.w3.org/2001/XMLSchema',
-                    'xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance'
-                },
-                'xsd:schema': [{
-                    $: { id: 'root', xmlns: '', 'xmlns:xsd': 'http://www.w3.org/2001/XMLSchema', 'xmlns:msdata': 'urn:schemas-microsoft-com:xml-msdata' },
-                    'xsd:import': [{ $: { namespace: 'http://www.w3.org/XML/1998/namespace' } }],
-                    'xsd:element': [{
-                        $: { name: 'root', 'msdata:IsDataSet': 'true' },
-                        'xsd:complexType': [{
-                            'xsd:choice': [{
-                                $: { maxOccurs: 'unbounded' },
-                                'xsd:element': [{
-                                    $: { name: 'metadata' },
-                                    'xsd:complexType': [{
-                                        'xsd:sequence': [{
-                                            'xsd:element': [{ $: { name: 'value', type: 'xsd:string', minOccurs: '0' } }]
-                                        }],
-                                        'xsd:attribute': [
-                                            { $: { name: 'name', use: 'required', type: 'xsd:string' } },
-                                            { $: { name: 'type', type: 'xsd:string' } },
-                                            { $: { name: 'mimetype', type: 'xsd:string' } },
-                                            { $: { ref: 'xml:space' } }
-                                        ]
-                                    }]
-                                }, {
-                                    $: { name: 'assembly' },
-                                    'xsd:complexType': [{
-                                        'xsd:attribute': [{ $: { name: 'alias', type: 'xsd:string' } }, { $: { name: 'name', type: 'xsd:string' } }]
-                                    }]
-                                }, {
-                                    $: { name: 'data' },
-                                    'xsd:complexType': [{
-                                        'xsd:sequence': [{
-                                            'xsd:element': [{ $: { name: 'value', type: 'xsd:string', minOccurs: '0', 'msdata:Ordinal': '1' } }, { $: { name: 'comment', type: 'xsd:string', minOccurs: '0', 'msdata:Ordinal': '2' } }]
-                                        }],
-                                        'xsd:attribute': [
-                                            { $: { name: 'name', type: 'xsd:string', use: 'required', 'msdata:Ordinal': '1' } },
-                                            { $: { name: 'type', type: 'xsd:string', 'msdata:Ordinal': '3' } },
-                                            { $: { name: 'mimetype', type: 'xsd:string', 'msdata:Ordinal': '4' } },
-                                            { $: { ref: 'xml:space' } }
-                                        ]
-                                    }]
-                                }, {
-                                    $: { name: 'resheader' },
-                                    'xsd:complexType': [{
-                                        'xsd:sequence': [{ 'xsd:element': [{ $: { name: 'value', type: 'xsd:string', minOccurs: '0', 'msdata:Ordinal': '1' } }] }],
-                                        'xsd:attribute': [{ $: { name: 'name', type: 'xsd:string', use: 'required' } }]
-                                    }]
-                                }]
-                            }]
-                        }]
-                    }]
-                }],
-                resheader: [
-                    { $: { name: 'resmimetype' }, value: ['text/microsoft-resx'] },
-                    { $: { name: 'version' }, value: ['2.0'] },
-                    { $: { name: 'reader' }, value: ['System.Resources.ResXResourceReader, System.Windows.Forms, Version=4.0.0.0, Culture=neutral, PublicKeyToken=b77a5c561934e089'] },
-                    { $: { name: 'writer' }, value: ['System.Resources.ResXResourceWriter, System.Windows.Forms, Version=4.0.0.0, Culture=neutral, PublicKeyToken=b77a5c561934e089'] }
-                ],
-                data: dataArray
-            }
-        };
+        if (!culture) {
+            const picked = await vscode.window.showQuickPick(
+                cultureFiles.map(f => ({ label: f.language, description: getCultureDisplayName(f.language, displayLocale) })),
+                { placeHolder: this.t(uiLanguage, 'pickCultureToRemove'), matchOnDescription: true }
+            );
+            culture = picked?.label;
+        }
+        const file = cultureFiles.find(f => f.language === culture);
+        if (!culture || !file) {
+            return;
+        }
+
+        const fileName = path.basename(file.document.uri.fsPath);
+        const confirm = await vscode.window.showWarningMessage(
+            this.t(uiLanguage, 'confirmRemoveCulture', { file: fileName, culture }),
+            { modal: true },
+            this.t(uiLanguage, 'delete')
+        );
+        if (confirm !== this.t(uiLanguage, 'delete')) {
+            return;
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        edit.deleteFile(file.document.uri);
+        if (!await vscode.workspace.applyEdit(edit)) {
+            return;
+        }
+        this.diagnostics.delete(file.document.uri);
 
-        const builder = new Builder({ xmldec: { version: '1.0', encoding: 'utf-8' } });
-        const xml = builder.buildObject(xmlObj);
-        fs.writeFileSync(filePath, xml, 'utf-8');
+        await session.refresh();
+        vscode.window.showInformationMessage(this.t(uiLanguage, 'removedCulture', { culture }));
     }
 
-    private async addNewRow(baseUri: vscode.Uri, key: string): Promise<void> {
-        const basePath = baseUri.fsPath;
-        const dir = path.dirname(basePath);
-        const baseFileName = path.basename(basePath, '.resx');
-        const files = fs.readdirSync(dir);
+    private async exportCsv(session: EditorSession): Promise<void> {
+        const uiLanguage = this.resolveUiLanguage();
+        const resxSet = await this.openResxSet(session.document);
+        const resxData = await this.loadResxFiles(resxSet);
+        const baseFileName = path.basename(session.document.uri.fsPath, '.resx');
 
-        // Add to default file
-        await this.addKeyToFile(basePath, key);
+        const uri = await vscode.window.showSaveDialog({
+            defaultUri: vscode.Uri.joinPath(session.document.uri, '..', `${baseFileName}.csv`),
+            filters: { [this.t(uiLanguage, 'csvFiles')]: ['csv'] },
+        });
+        if (!uri) {
+            return;
+        }
 
-        // Add to all language-specific files
-        for (const file of files) {
-            const language = this.tryGetCultureFromResxFileName(baseFileName, file);
-            if (language) {
-                const filePath = path.join(dir, file);
-                await this.addKeyToFile(filePath, key);
+        const csv = exportCsv(resxData, resxSet.map(f => f.language));
+        // The BOM makes Excel read the file as UTF-8 instead of the system code page.
+        await vscode.workspace.fs.writeFile(uri, Buffer.from('\ufeff' + csv, 'utf-8'));
+        const count = new Set(Object.values(resxData).flatMap(file => file.keys())).size;
+        vscode.window.showInformationMessage(this.t(uiLanguage, 'exportedCsv', { count: String(count), file: path.basename(uri.fsPath) }));
+    }
+
+    /** Imports a spreadsheet after letting the user pick columns and review every change; applied as one undoable edit. */
+    private async importCsv(session: EditorSession): Promise<void> {
+        const uiLanguage = this.resolveUiLanguage();
+        const displayLocale = uiLanguage === 'zh-cn' ? 'zh-CN' : 'en';
+        const [uri] = await vscode.window.showOpenDialog({
+            defaultUri: vscode.Uri.joinPath(session.document.uri, '..'),
+            filters: { [this.t(uiLanguage, 'csvFiles')]: ['csv', 'txt'] },
+            canSelectMany: false,
+        }) ?? [];
+        if (!uri) {
+            return;
+        }
+        const fileName = path.basename(uri.fsPath);
+
+        const resxSet = await this.openResxSet(session.document);
+        const resxData = await this.loadResxFiles(resxSet);
+        let table;
+        try {
+            const text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf-8');
+            table = parseCsvTable(text, resxSet.map(f => f.language));
+        } catch (error) {
+            if (error instanceof CsvFormatError) {
+                vscode.window.showErrorMessage(this.t(uiLanguage, 'invalidCsv', { file: fileName, error: error.message }));
+                return;
             }
+            throw error;
+        }
+        if (table.languages.length === 0 && !table.hasComment) {
+            vscode.window.showErrorMessage(this.t(uiLanguage, 'noCsvColumns', { file: fileName }));
+            return;
         }
-    }
 
-    private async addKeyToFile(filePath: string, key: string): Promise<void> {
-        const content = fs.readFileSync(filePath, 'utf-8');
-        
-        return new Promise((resolve, reject) => {
-            parseString(content, async (err, result) => {
-                if (err) {
-                    reject(err);
-                    return;
-                }
+        const columnItems = table.languages.map(language => ({
+            label: language,
+            description: language === 'default' ? this.t(uiLanguage, 'default') : getCultureDisplayName(language, displayLocale),
+            picked: true,
+        }));
+        if (table.hasComment) {
+            columnItems.push({ label: 'comment', description: this.t(uiLanguage, 'commentColumn'), picked: true });
+        }
+        const columns = await vscode.window.showQuickPick(columnItems, {
+            canPickMany: true,
+            placeHolder: this.t(uiLanguage, 'pickColumnsToImport'),
+            title: fileName,
+        });
+        if (!columns || columns.length === 0) {
+            return;
+        }
+        const languages = columns.map(c => c.label).filter(label => label !== 'comment');
+        const includeComment = columns.some(c => c.label === 'comment');
 
-                if (!result.root.data) {
-                    result.root.data = [];
-                }
+        const changes = diffCsvTable(resxData, table, languages, includeComment);
+        if (changes.length === 0) {
+            vscode.window.showInformationMessage(this.t(uiLanguage, 'csvNoChanges'));
+            return;
+        }
 
-                // Check if key already exists
-                const exists = result.root.data.some((data: any) => data.$.name === key);
-                if (!exists) {
-                    const newEntry = {
-                        $: { name: key, 'xml:space': 'preserve' },
-                        value: ['']
-                    };
-                    result.root.data.push(newEntry);
-
-                    const builder = new Builder({ xmldec: { version: '1.0', encoding: 'utf-8' } });
-                    const xml = builder.buildObject(result);
-                    fs.writeFileSync(filePath, xml, 'utf-8');
-                }
+        const selected = await this.previewCsvChanges(uiLanguage, fileName, resxData, changes);
+        if (!selected || selected.length === 0) {
+            return;
+        }
 
-                resolve();
-            });
-        });
+        await this.applyCsvChanges(resxSet, selected);
+        vscode.window.showInformationMessage(this.t(uiLanguage, 'importedCsv', { count: String(selected.length), file: fileName }));
     }
 
-    private async deleteRow(baseUri: vscode.Uri, key: string): Promise<void> {
-        const basePath = baseUri.fsPath;
-        const dir = path.dirname(basePath);
-        const baseFileName = path.basename(basePath, '.resx');
-        const files = fs.readdirSync(dir);
-
-        const resxFiles = [basePath];
-        for (const file of files) {
-            const language = this.tryGetCultureFromResxFileName(baseFileName, file);
-            if (language) {
-                resxFiles.push(path.join(dir, file));
+    private async previewCsvChanges(
+        uiLanguage: UiLanguage,
+        fileName: string,
+        resxData: ResxDocument,
+        changes: CsvChange[]
+    ): Promise<CsvChange[] | undefined> {
+        type ChangeItem = vscode.QuickPickItem & { change?: CsvChange };
+        const oneLine = (value: string) => value.replace(/\r?\n/g, ' ⏎ ');
+        const items: ChangeItem[] = [];
+        const groups: [CsvChange['kind'], UiStringKey][] = [['added', 'csvAdded'], ['changed', 'csvChanged'], ['removed', 'csvRemoved']];
+        const counts: Record<string, string> = {};
+
+        for (const [kind, title] of groups) {
+            const ofKind = changes.filter(c => c.kind === kind);
+            counts[kind] = String(ofKind.length);
+            if (ofKind.length === 0) {
+                continue;
+            }
+            items.push({ label: this.t(uiLanguage, title), kind: vscode.QuickPickItemKind.Separator });
+            for (const change of ofKind) {
+                items.push({
+                    label: change.key,
+                    description: change.language === 'comment' ? this.t(uiLanguage, 'commentColumn') : change.language,
+                    detail: kind === 'removed'
+                        ? oneLine(resxData['default']?.get(change.key)?.value ?? '')
+                        : kind === 'changed'
+                            ? `${oneLine(change.before ?? '')} → ${oneLine(change.after ?? '')}`
+                            : oneLine(change.after ?? ''),
+                    // Removing keys is opt-in: a missing row is more often a filtered sheet than a deliberate delete.
+                    picked: kind !== 'removed',
+                    change,
+                });
             }
         }
 
-        for (const filePath of resxFiles) {
-            const content = fs.readFileSync(filePath, 'utf-8');
-            
-            await new Promise<void>((resolve, reject) => {
-                parseString(content, (err, result) => {
-                    if (err) {
-                        reject(err);
-                        return;
-                    }
+        const picked = await vscode.window.showQuickPick(items, {
+            canPickMany: true,
+            matchOnDescription: true,
+            matchOnDetail: true,
+            title: fileName,
+            placeHolder: this.t(uiLanguage, 'csvPreview', counts),
+        });
+        return picked?.flatMap(item => item.change ? [item.change] : []);
+    }
 
-                    if (result.root && result.root.data) {
-                        result.root.data = result.root.data.filter((data: any) => data.$.name !== key);
-                        
-                        const builder = new Builder({ xmldec: { version: '1.0', encoding: 'utf-8' } });
-                        const xml = builder.buildObject(result);
-                        fs.writeFileSync(filePath, xml, 'utf-8');
+    private async applyCsvChanges(resxSet: ResxSetFile[], changes: CsvChange[]): Promise<void> {
+        const edit = new vscode.WorkspaceEdit();
+
+        for (const file of resxSet) {
+            this.writeResxFile(edit, file.document, resx => {
+                let changed = false;
+                for (const change of changes) {
+                    if (change.kind === 'removed') {
+                        changed = resx.remove(change.key) || changed;
+                    } else if (change.language === file.language) {
+                        changed = (resx.has(change.key)
+                            ? resx.setValue(change.key, change.after ?? '')
+                            : resx.add({ name: change.key, value: change.after ?? '' })) || changed;
+                    } else if (file.language === 'default' && change.kind === 'added' && !resx.has(change.key)) {
+                        // New keys always get a default entry so culture values are not orphaned.
+                        changed = resx.add({ name: change.key, value: '' }) || changed;
                     }
-
-                    resolve();
-                });
+                    if (file.language === 'default' && change.language === 'comment') {
+                        changed = resx.setComment(change.key, change.after ?? '') || changed;
+                    }
+                }
+                return changed;
             });
         }
+
+        await this.applyGridEdit(edit);
+    }
+
+    /** BCP 47 tag of a culture in the set; the neutral file's language comes from `resxEditor.neutralLanguage`. */
+    private getLanguageTag(culture: string): string {
+        return culture === 'default'
+            ? vscode.workspace.getConfiguration().get<string>('resxEditor.neutralLanguage', 'en')
+            : culture;
     }
 
-    private getHtmlForWebview(webview: vscode.Webview, resxData: ResxDocument): string {
+    private async exportXliff(session: EditorSession): Promise<void> {
         const uiLanguage = this.resolveUiLanguage();
-        const s = (key: UiStringKey) => this.t(uiLanguage, key);
-        const uiLanguageSetting = vscode.workspace.getConfiguration().get<string>('resxEditor.uiLanguage', 'auto');
-        const languages = Object.keys(resxData);
-        const allKeys = new Set<string>();
-        
-        for (const entries of Object.values(resxData)) {
-            for (const key of entries.keys()) {
-                allKeys.add(key);
-            }
+        const displayLocale = uiLanguage === 'zh-cn' ? 'zh-CN' : 'en';
+        const resxSet = await this.openResxSet(session.document);
+        if (resxSet.length < 2) {
+            vscode.window.showInformationMessage(this.t(uiLanguage, 'xliffNeedsCulture'));
+            return;
         }
+        const cultureItem = (language: string) => ({
+            label: language,
+            description: language === 'default'
+                ? `${this.t(uiLanguage, 'default')} (${this.getLanguageTag(language)})`
+                : getCultureDisplayName(language, displayLocale),
+        });
 
-        const rows = Array.from(allKeys).map(key => {
-            const row: any = { key };
-            for (const language of languages) {
-                const entry = resxData[language]?.get(key);
-                row[language] = entry?.value || '';
-            }
-            return row;
+        const source = await vscode.window.showQuickPick(resxSet.map(f => cultureItem(f.language)), {
+            placeHolder: this.t(uiLanguage, 'pickXliffSource'),
+            matchOnDescription: true,
         });
+        if (!source) {
+            return;
+        }
+        const target = await vscode.window.showQuickPick(
+            resxSet.filter(f => f.language !== source.label && f.language !== 'default').map(f => cultureItem(f.language)),
+            { placeHolder: this.t(uiLanguage, 'pickXliffTarget'), matchOnDescription: true }
+        );
+        if (!target) {
+            return;
+        }
+        const version = await vscode.window.showQuickPick(['1.2', '2.0'], { placeHolder: this.t(uiLanguage, 'pickXliffVersion') });
+        if (!version) {
+            return;
+        }
 
-        const escapeHtml = (str: string) => {
-            return str
-                .replace(/&/g, '&amp;')
-                .replace(/</g, '&lt;')
-                .replace(/>/g, '&gt;')
-                .replace(/"/g, '&quot;')
-                .replace(/'/g, '&#39;');
-        };
+        const baseFileName = path.basename(session.document.uri.fsPath, '.resx');
+        const uri = await vscode.window.showSaveDialog({
+            defaultUri: vscode.Uri.joinPath(session.document.uri, '..', `${baseFileName}.${target.label}.xlf`),
+            filters: { [this.t(uiLanguage, 'xliffFiles')]: ['xlf', 'xliff'] },
+        });
+        if (!uri) {
+            return;
+        }
 
-        const columnKeys = ['__key', ...languages, '__actions'];
-        const defaultColumnWidths: Record<string, number> = {
-            __key: 260,
-            __actions: 90,
-        };
-        for (const lang of languages) {
-            defaultColumnWidths[lang] = 320;
+        const resxData = await this.loadResxFiles(resxSet);
+        const xliff = exportXliff(resxData, {
+            version: version as XliffVersion,
+            sourceCulture: source.label,
+            targetCulture: target.label,
+            sourceLanguage: this.getLanguageTag(source.label),
+            targetLanguage: target.label,
+            original: path.basename(session.document.uri.fsPath),
+        });
+        await vscode.workspace.fs.writeFile(uri, Buffer.from(xliff, 'utf-8'));
+        const count = parseXliff(xliff).units.length;
+        vscode.window.showInformationMessage(this.t(uiLanguage, 'exportedXliff', { count: String(count), file: path.basename(uri.fsPath) }));
+    }
+
+    /** Merges the translations of an XLIFF file into the culture it targets, as one undoable edit. */
+    private async importXliff(session: EditorSession): Promise<void> {
+        const uiLanguage = this.resolveUiLanguage();
+        const [uri] = await vscode.window.showOpenDialog({
+            defaultUri: vscode.Uri.joinPath(session.document.uri, '..'),
+            filters: { [this.t(uiLanguage, 'xliffFiles')]: ['xlf', 'xliff'] },
+            canSelectMany: false,
+        }) ?? [];
+        if (!uri) {
+            return;
+        }
+        const fileName = path.basename(uri.fsPath);
+
+        let xliff;
+        try {
+            xliff = parseXliff(Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf-8'));
+        } catch (error) {
+            if (error instanceof XliffFormatError) {
+                vscode.window.showErrorMessage(this.t(uiLanguage, 'invalidXliff', { file: fileName, error: error.message }));
+                return;
+            }
+            throw error;
         }
 
-        const colGroupHtml = columnKeys
-            .map((colKey) => `<col data-col-key="${escapeHtml(colKey)}" style="width: ${(defaultColumnWidths[colKey] ?? 200)}px;" />`)
-            .join('');
+        const resxSet = await this.openResxSet(session.document);
+        const findCulture = (tag: string | undefined) =>
+            resxSet.find(f => f.language !== 'default' && f.language.toLowerCase() === tag?.toLowerCase());
+        const targetFile = findCulture(xliff.targetLanguage);
+        if (!targetFile) {
+            vscode.window.showErrorMessage(this.t(uiLanguage, 'xliffNoTargetCulture', { file: fileName, culture: xliff.targetLanguage ?? '' }));
+            return;
+        }
+        const sourceCulture = findCulture(xliff.sourceLanguage)?.language ?? 'default';
 
-        return `<!DOCTYPE html>
-<html lang="en">
-<head>
-    <meta charset="UTF-8">
-    <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>Resx Editor</title>
-    <style>
-        body {
-            font-family: var(--vscode-font-family);
-            padding: 20px;
-            color: var(--vscode-foreground);
-            background-color: var(--vscode-editor-background);
-        }
-        .toolbar {
-            margin-bottom: 20px;
-            display: flex;
-            gap: 10px;
-            align-items: center;
-            flex-wrap: wrap;
-        }
-        button {
-            padding: 6px 12px;
-            background: var(--vscode-button-background);
-            color: var(--vscode-button-foreground);
-            border: none;
-            cursor: pointer;
-            border-radius: 2px;
-        }
-        button:hover {
-            background: var(--vscode-button-hoverBackground);
-        }
-        .toolbar-spacer {
-            flex: 1;
-        }
-        .toolbar-setting {
-            display: flex;
-            align-items: center;
-            gap: 8px;
-            margin-left: auto;
-        }
-        .toolbar-setting label {
-            opacity: 0.9;
-        }
-        .toolbar-setting select {
-            background: var(--vscode-input-background);
-            color: var(--vscode-input-foreground);
-            border: 1px solid var(--vscode-input-border);
-            padding: 4px 8px;
-        }
-        .grid-container {
-            overflow-x: auto;
-        }
-        table {
-            width: 100%;
-            border-collapse: collapse;
-            background: var(--vscode-editor-background);
-            table-layout: fixed;
-        }
-        th, td {
-            border: 1px solid var(--vscode-panel-border);
-            padding: 8px;
-            text-align: left;
-            overflow: hidden;
-        }
-        th {
-            background: var(--vscode-editor-inactiveSelectionBackground);
-            font-weight: 600;
-            position: sticky;
-            top: 0;
-            z-index: 10;
-        }
-        th.resizable {
-            position: relative;
-        }
-        .resize-handle {
-            position: absolute;
-            top: 0;
-            right: 0;
-            width: 8px;
-            height: 100%;
-            cursor: col-resize;
-            user-select: none;
-            touch-action: none;
-        }
-        .resize-handle:hover {
-            background: var(--vscode-focusBorder);
-        }
-        input, textarea {
-            width: 100%;
-            background: var(--vscode-input-background);
-            color: var(--vscode-input-foreground);
-            border: 1px solid var(--vscode-input-border);
-            padding: 4px;
-            box-sizing: border-box;
-        }
-        input:focus, textarea:focus {
-            outline: 1px solid var(--vscode-focusBorder);
-        }
-        .key-cell {
-            min-width: 0;
-            max-width: none;
-        }
-        .value-cell {
-            min-width: 0;
-            max-width: none;
-        }
-        .delete-btn {
-            background: var(--vscode-errorForeground);
-            color: white;
-            padding: 4px 8px;
-            font-size: 12px;
-        }
-        .action-cell {
-            text-align: center;
-        }
-        body.fit-mode .grid-container {
-            overflow-x: hidden;
-        }
-        body.fit-mode .key-cell,
-        body.fit-mode .value-cell {
-            min-width: 0;
-            max-width: none;
-        }
-        body.fit-mode textarea,
-        body.fit-mode input {
-            min-width: 0;
-        }
-    </style>
-</head>
-<body>
-    <div class="toolbar">
-        <button onclick="addRow()">${escapeHtml(s('addNewKey'))}</button>
-        <button id="fitColumnsBtn">${escapeHtml(s('fitColumns'))}</button>
-        <button onclick="saveData()">${escapeHtml(s('saveAll'))}</button>
+        const resxData = await this.loadResxFiles(resxSet);
+        const merge = mergeXliff(resxData, sourceCulture, targetFile.language, xliff);
+        let updates = merge.updates;
 
-        <span class="toolbar-spacer"></span>
-        <div class="toolbar-setting">
-            <label for="uiLanguageSelect">${escapeHtml(s('uiLanguage'))}</label>
-            <select id="uiLanguageSelect">
-                <option value="auto">${escapeHtml(s('uiLanguageAuto'))}</option>
-                <option value="en">${escapeHtml(s('uiLanguageEn'))}</option>
-                <option value="zh-cn">${escapeHtml(s('uiLanguageZhCn'))}</option>
-            </select>
-        </div>
-    </div>
-    
-    <div class="grid-container" id="gridContainer">
-        <table id="resxTable">
-            <colgroup>
-                ${colGroupHtml}
-            </colgroup>
-            <thead>
-                <tr>
-                    <th class="resizable" data-col-key="__key">${escapeHtml(s('key'))}<div class="resize-handle" data-col-key="__key"></div></th>
-                    ${languages.map(lang => `<th class="resizable" data-col-key="${escapeHtml(lang)}">${lang === 'default' ? escapeHtml(s('default')) : escapeHtml(lang)}<div class="resize-handle" data-col-key="${escapeHtml(lang)}"></div></th>`).join('')}
-                    <th>${escapeHtml(s('actions'))}</th>
-                </tr>
-            </thead>
-            <tbody>
-                ${rows.map(row => `
-                    <tr data-key="${escapeHtml(row.key)}">
-                        <td class="key-cell">
-                            <input type="text" value="${escapeHtml(row.key)}" onchange="updateKey(this)" />
-                        </td>
-                        ${languages.map(lang => `
-                            <td class="value-cell">
-                                <textarea rows="2" onchange="updateValue(this, '${escapeHtml(row.key)}', '${escapeHtml(lang)}')">${escapeHtml(row[lang] || '')}</textarea>
-                            </td>
-                        `).join('')}
-                        <td class="action-cell">
-                            <button class="delete-btn" onclick="deleteRow('${escapeHtml(row.key)}')">${escapeHtml(s('delete'))}</button>
-                        </td>
-                    </tr>
-                `).join('')}
-            </tbody>
-        </table>
-    </div>
+        if (merge.unknownKeys.length > 0) {
+            vscode.window.showWarningMessage(this.t(uiLanguage, 'xliffUnknownKeys', {
+                count: String(merge.unknownKeys.length),
+                keys: merge.unknownKeys.slice(0, 10).join(', ') + (merge.unknownKeys.length > 10 ? ', …' : ''),
+            }));
+        }
+        if (merge.sourceChanged.length > 0) {
+            const importAnyway = this.t(uiLanguage, 'xliffImportAnyway');
+            const skipChanged = this.t(uiLanguage, 'xliffSkipChanged');
+            const choice = await vscode.window.showWarningMessage(
+                this.t(uiLanguage, 'xliffSourceChanged', { count: String(merge.sourceChanged.length) }),
+                {
+                    modal: true,
+                    detail: merge.sourceChanged.slice(0, 20)
+                        .map(c => `${c.key}: "${c.exported}" → "${c.current}"`)
+                        .join('\n') + (merge.sourceChanged.length > 20 ? '\n…' : ''),
+                },
+                importAnyway,
+                skipChanged
+            );
+            if (!choice) {
+                return;
+            }
+            if (choice === skipChanged) {
+                const changedKeys = new Set(merge.sourceChanged.map(c => c.key));
+                updates = updates.filter(u => !changedKeys.has(u.key));
+            }
+        }
+        if (updates.length === 0) {
+            vscode.window.showInformationMessage(this.t(uiLanguage, 'xliffNoChanges', { file: fileName, culture: targetFile.language }));
+            return;
+        }
 
-    <script>
-        (function() {
-            const vscode = acquireVsCodeApi();
-            const persistedState = vscode.getState() || {};
-            const uiLanguageSetting = ${JSON.stringify(uiLanguageSetting)};
-            let data = ${JSON.stringify(resxData, (key, value) => 
-                value instanceof Map ? Object.fromEntries(value) : value
-            )};
-
-            const columnKeys = ${JSON.stringify(columnKeys)};
-            const defaultColumnWidths = ${JSON.stringify(defaultColumnWidths)};
-            let columnWidths = persistedState.columnWidths || {};
-            let fitMode = (typeof persistedState.fitMode === 'boolean') ? persistedState.fitMode : true;
-
-            const colMap = {};
-            const colEls = document.querySelectorAll('col[data-col-key]');
-            for (const colEl of colEls) {
-                const key = colEl.getAttribute('data-col-key');
-                if (key) colMap[key] = colEl;
-            }
-
-            const getColElement = (colKey) => {
-                return colMap[colKey] || null;
-            };
+        const edit = new vscode.WorkspaceEdit();
+        this.writeResxFile(edit, targetFile.document, resx => {
+            let changed = false;
+            for (const update of updates) {
+                changed = (resx.has(update.key)
+                    ? resx.setValue(update.key, update.value)
+                    : resx.add({ name: update.key, value: update.value })) || changed;
+            }
+            return changed;
+        });
+        await this.applyGridEdit(edit);
+        vscode.window.showInformationMessage(this.t(uiLanguage, 'importedXliff', {
+            count: String(updates.length),
+            file: fileName,
+            culture: targetFile.language,
+        }));
+    }
 
-            const applyFitModeClass = () => {
-                document.body.classList.toggle('fit-mode', !!fitMode);
-            };
+    private async openResxSet(document: vscode.TextDocument): Promise<ResxSetFile[]> {
+        const resxSet: ResxSetFile[] = [{ language: 'default', document }];
 
-            const applyColumnWidths = () => {
-                for (const colKey of columnKeys) {
-                    const colEl = getColElement(colKey);
-                    if (!colEl) continue;
-                    const widthSource = (columnWidths[colKey] !== undefined && columnWidths[colKey] !== null)
-                        ? columnWidths[colKey]
-                        : defaultColumnWidths[colKey];
-                    const width = Number(widthSource);
-                    if (Number.isFinite(width) && width > 0) {
-                        colEl.style.width = String(width) + 'px';
-                    }
-                }
-            };
+        for (const culture of findCultureFiles(document.uri.fsPath)) {
+            const uri = vscode.Uri.joinPath(document.uri, '..', path.basename(culture.path));
+            resxSet.push({ language: culture.language, document: await vscode.workspace.openTextDocument(uri) });
+        }
+
+        return resxSet;
+    }
+
+    private async getExistingKeys(resxSet: ResxSetFile[]): Promise<Record<string, string[]>> {
+        const resxData = await this.loadResxFiles(resxSet);
+        return Object.fromEntries(Object.entries(resxData).map(([language, file]) => [language, file.keys()]));
+    }
+
+    /** Keys must stay valid C# identifiers when a strongly typed accessor class is generated for the set. */
+    private async hasStronglyTypedResources(document: vscode.TextDocument): Promise<boolean> {
+        return await findDesignerSettings(document.uri.fsPath) !== undefined;
+    }
+
+    /** Regenerates the Designer.cs class from the saved default file; leaves the file alone when nothing changed. */
+    private async updateDesignerFile(document: vscode.TextDocument): Promise<void> {
+        if (!vscode.workspace.getConfiguration().get<boolean>('resxEditor.generateDesignerOnSave', true)) {
+            return;
+        }
+        const settings = await findDesignerSettings(document.uri.fsPath);
+        if (!settings) {
+            return;
+        }
+
+        const resx = ResxFile.parse(document.getText());
+        const designerUri = vscode.Uri.file(settings.designerPath);
+        const open = vscode.workspace.textDocuments.find(d => d.uri.toString() === designerUri.toString());
+        if (open) {
+            // Edit the open document so its editor stays in sync; unsaved changes are replaced but can be undone.
+            // VS Code keeps the file's BOM when it saves.
+            const code = generateDesignerCode(resx, settings, open.eol === vscode.EndOfLine.LF ? '\n' : '\r\n');
+            const text = open.getText();
+            if (code === text) {
+                return;
+            }
+            const wasDirty = open.isDirty;
+            const edit = new vscode.WorkspaceEdit();
+            edit.replace(designerUri, new vscode.Range(open.positionAt(0), open.positionAt(text.length)), code);
+            if (!await vscode.workspace.applyEdit(edit)) {
+                return;
+            }
+            if (!wasDirty) {
+                await open.save();
+            }
+        } else {
+            const existing = fs.existsSync(settings.designerPath) ? fs.readFileSync(settings.designerPath, 'utf-8') : undefined;
+            // Keep the line endings and BOM of the existing file; Visual Studio writes CRLF with a BOM.
+            const newline = existing !== undefined && !existing.includes('\r\n') && existing.includes('\n') ? '\n' : '\r\n';
+            const bom = existing === undefined || existing.charCodeAt(0) === 0xfeff ? '\ufeff' : '';
+            const code = bom + generateDesignerCode(resx, settings, newline);
+            if (code === existing) {
+                return;
+            }
+            await fs.promises.writeFile(settings.designerPath, code, 'utf-8');
+        }
+        vscode.window.setStatusBarMessage(this.t(this.resolveUiLanguage(), 'updatedDesigner', { file: path.basename(settings.designerPath) }), 3000);
+    }
 
-            const persistLayout = () => {
-                vscode.setState({
-                    columnWidths,
-                    fitMode
+    private describeKeyProblem(uiLanguage: UiLanguage, key: string, problem: KeyProblem): string {
+        switch (problem.kind) {
+            case 'empty':
+                return this.t(uiLanguage, 'keyCannotBeEmpty');
+            case 'exists':
+                return this.t(uiLanguage, 'keyAlreadyExists', { key: problem.existing, languages: problem.languages.join(', ') });
+            case 'notIdentifier':
+                return this.t(uiLanguage, 'keyNotIdentifier', { key });
+        }
+    }
+
+    private async loadResxFiles(resxSet: ResxSetFile[]): Promise<ResxDocument> {
+        const resxFiles: ResxDocument = {};
+
+        for (const file of resxSet) {
+            resxFiles[file.language] = ResxFile.parse(file.document.getText());
+        }
+
+        return resxFiles;
+    }
+
+    /**
+     * Publishes validation issues on the culture file each one belongs to, at the offending `<value>`.
+     * Key issues are reported on the `<data>` start line; duplicates on every node but the last, which is kept.
+     */
+    private updateDiagnostics(resxSet: ResxSetFile[], resxData: ResxDocument, issues: ValidationIssue[], keyIssues: KeyIssue[]): void {
+        const toSeverity = (severity: ValidationSeverity) =>
+            severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning;
+
+        for (const file of resxSet) {
+            const resx = resxData[file.language];
+            const valueDiagnostics = issues
+                .filter(issue => issue.language === file.language)
+                .map(issue => {
+                    const offsets = resx.getValueRange(issue.key);
+                    const range = offsets
+                        ? new vscode.Range(file.document.positionAt(offsets.start), file.document.positionAt(offsets.end))
+                        : new vscode.Range(0, 0, 0, 0);
+                    const diagnostic = new vscode.Diagnostic(range, issue.message, toSeverity(issue.severity));
+                    diagnostic.source = 'resx';
+                    diagnostic.code = issue.kind;
+                    return diagnostic;
                 });
-            };
+            const keyDiagnostics = keyIssues
+                .filter(issue => issue.language === file.language)
+                .flatMap(issue => {
+                    const ranges = resx.getRanges(issue.key);
+                    return (issue.kind === 'duplicateKey' ? ranges.slice(0, -1) : ranges.slice(-1)).map(offsets => {
+                        const start = file.document.positionAt(offsets.start);
+                        const diagnostic = new vscode.Diagnostic(
+                            new vscode.Range(start, file.document.lineAt(start.line).range.end),
+                            issue.message,
+                            toSeverity(issue.severity)
+                        );
+                        diagnostic.source = 'resx';
+                        diagnostic.code = issue.kind;
+                        return diagnostic;
+                    });
+                });
+            this.diagnostics.set(file.document.uri, [...valueDiagnostics, ...keyDiagnostics]);
+        }
+    }
 
-            const fitColumnsToWindow = () => {
-                const container = document.getElementById('gridContainer');
-                if (!container) return;
-
-                const containerWidth = container.clientWidth;
-                const languageCols = ${JSON.stringify(languages)};
-                const actionWidth = Number((columnWidths.__actions !== undefined && columnWidths.__actions !== null)
-                    ? columnWidths.__actions
-                    : (defaultColumnWidths.__actions !== undefined && defaultColumnWidths.__actions !== null ? defaultColumnWidths.__actions : 90));
-                const keyWidth = Math.min(
-                    Math.max(
-                        180,
-                        Number((columnWidths.__key !== undefined && columnWidths.__key !== null)
-                            ? columnWidths.__key
-                            : (defaultColumnWidths.__key !== undefined && defaultColumnWidths.__key !== null ? defaultColumnWidths.__key : 260))
-                    ),
-                    420
-                );
+    /**
+     * Applies an edit made from a grid. The tab of a Resx Editor only tracks its own document, so when the edit
+     * changes other files of the set but not that document, one character of it is replaced with itself: the tab
+     * then shows the set as dirty, Ctrl+S on it saves the whole set, and Ctrl+Z in the grid undoes the edit.
+     */
+    private applyGridEdit(edit: vscode.WorkspaceEdit): Thenable<boolean> {
+        const edited = new Set(edit.entries().map(([uri]) => uri.toString()));
+        for (const session of this.sessions.values()) {
+            const document = session.document;
+            const touchesSet = session.files().some(f => edited.has(f.document.uri.toString()));
+            if (touchesSet && !edited.has(document.uri.toString()) && document.getText().length > 0) {
+                const range = new vscode.Range(document.positionAt(0), document.positionAt(1));
+                edit.replace(document.uri, range, document.getText(range));
+            }
+        }
+        return vscode.workspace.applyEdit(edit);
+    }
+
+    private async saveResxFiles(resxSet: ResxSetFile[], notify = true): Promise<void> {
+        for (const file of resxSet) {
+            if (file.document.isDirty) {
+                await file.document.save();
+            }
+        }
+
+        if (notify) {
+            const uiLanguage = this.resolveUiLanguage();
+            vscode.window.showInformationMessage(this.t(uiLanguage, 'savedSuccessfully'));
+        }
+    }
+
+    /**
+     * Applies `mutate` to the resx model of `document` and records the changed span in `edit`.
+     * Nothing is written to disk: the change lands in the TextDocument, so undo, dirty state and save are VS Code's.
+     * Only the touched `<data>` nodes are rewritten, then the nodes are reordered as `keyOrder` asks; everything
+     * else in the file is left byte-for-byte intact.
+     */
+    private writeResxFile(
+        edit: vscode.WorkspaceEdit,
+        document: vscode.TextDocument,
+        mutate: (file: ResxFile) => boolean,
+        keyOrder = this.getKeyOrder()
+    ): void {
+        const file = ResxFile.parse(document.getText());
+        if (!mutate(file)) {
+            return;
+        }
+
+        const isDefault = !splitResxFileName(path.basename(document.uri.fsPath))?.culture;
+        const compare = this.getKeyComparer(keyOrder, isDefault ? undefined : this.getDefaultKeyOrder(edit, document));
+        if (compare) {
+            file.sort(compare);
+        }
+        if (isDefault) {
+            this.pendingDefaultOrder.set(edit, file.entries.map(entry => entry.name));
+        }
+        this.replaceDocumentText(edit, document, file.toString());
+    }
+
+    private getKeyOrder(): KeyOrder {
+        const configured = vscode.workspace.getConfiguration().get<string>('resxEditor.keyOrder', 'preserve');
+        return configured === 'alphabetical' || configured === 'matchDefault' ? configured : 'preserve';
+    }
+
+    /** Orders entries for `keyOrder`; `defaultOrder` is given for culture files and undefined for the default file. */
+    private getKeyComparer(keyOrder: KeyOrder, defaultOrder: string[] | undefined): ((a: ResxEntry, b: ResxEntry) => number) | undefined {
+        if (keyOrder === 'alphabetical') {
+            return (a, b) => compareResourceNames(a.name, b.name);
+        }
+        if (keyOrder === 'matchDefault' && defaultOrder) {
+            // Keys the default file lacks go last, in their current order.
+            const rank = new Map(defaultOrder.map((key, i) => [key, i]));
+            return (a, b) => (rank.get(a.name) ?? Infinity) - (rank.get(b.name) ?? Infinity) || 0;
+        }
+        return undefined;
+    }
+
+    /** Key order of the default file next to culture `document`, including changes `edit` already makes to it. */
+    private getDefaultKeyOrder(edit: vscode.WorkspaceEdit, document: vscode.TextDocument): string[] | undefined {
+        const pending = this.pendingDefaultOrder.get(edit);
+        if (pending) {
+            return pending;
+        }
+        const parts = splitResxFileName(path.basename(document.uri.fsPath));
+        if (!parts) {
+            return undefined;
+        }
+        const uri = vscode.Uri.joinPath(document.uri, '..', `${parts.baseName}.resx`);
+        const open = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+        try {
+            const text = open ? open.getText() : fs.readFileSync(uri.fsPath, 'utf-8');
+            return ResxFile.parse(text).entries.map(entry => entry.name);
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Rewrites every file of the set in one undoable edit: canonical `<data>` layout in each file's own indentation
+     * and line endings, then the configured key order. With `preserve`, culture files still follow the default
+     * file's order so the set is consistent. VS Code keeps each file's encoding and BOM when it is saved.
+     */
+    private async normalizeResxSet(session: EditorSession): Promise<void> {
+        const uiLanguage = this.resolveUiLanguage();
+        const resxSet = await this.openResxSet(session.document);
+        const configured = this.getKeyOrder();
+        const keyOrder = configured === 'preserve' ? 'matchDefault' : configured;
+
+        const edit = new vscode.WorkspaceEdit();
+        for (const file of resxSet) {
+            this.writeResxFile(edit, file.document, resx => {
+                resx.normalize();
+                return true;
+            }, keyOrder);
+        }
+        await this.applyGridEdit(edit);
+
+        const counts = { count: String(edit.size), total: String(resxSet.length) };
+        vscode.window.showInformationMessage(this.t(uiLanguage, edit.size > 0 ? 'normalizedResxSet' : 'nothingToNormalize', counts));
+    }
+
+    private getPseudoLocaleSettings(): { culture: string; options: PseudoLocalizationOptions } {
+        const config = vscode.workspace.getConfiguration('resxEditor.pseudoLocale');
+        return {
+            culture: config.get<string>('culture', 'qps-ploc').trim(),
+            options: {
+                expansion: config.get<number>('expansion', 30),
+                brackets: config.get<boolean>('brackets', true),
+            },
+        };
+    }
+
+    /** Creates the pseudo-locale file of the set from the default file, or brings an existing one up to date. */
+    private async generatePseudoLocale(session: EditorSession): Promise<void> {
+        const uiLanguage = this.resolveUiLanguage();
+        const { culture, options } = this.getPseudoLocaleSettings();
+        if (!isKnownCultureName(culture)) {
+            vscode.window.showErrorMessage(this.t(uiLanguage, 'invalidCultureName', { culture }));
+            return;
+        }
+
+        const resxSet = await this.openResxSet(session.document);
+        const existing = resxSet.find(f => f.language.toLowerCase() === culture.toLowerCase());
+        const defaultFile = ResxFile.parse(session.document.getText());
+        const edit = new vscode.WorkspaceEdit();
+        const uri = existing?.document.uri ?? this.getCultureFileUri(session.document, culture);
+        if (existing) {
+            this.writeResxFile(edit, existing.document, resx => syncPseudoLocaleFile(resx, defaultFile, options));
+        } else {
+            edit.createFile(uri, { ignoreIfExists: false, contents: Buffer.from(createPseudoLocaleFile(defaultFile, options).toString(), 'utf-8') });
+        }
+        if (!await this.applyGridEdit(edit)) {
+            return;
+        }
+
+        await session.refresh();
+        vscode.window.showInformationMessage(this.t(uiLanguage, existing ? 'updatedPseudoLocale' : 'generatedPseudoLocale', { file: path.basename(uri.fsPath) }));
+    }
+
+    /** Regenerates the set's pseudo-locale file, if it has one, from the saved default `document`. */
+    private async updatePseudoLocale(resxSet: ResxSetFile[], document: vscode.TextDocument): Promise<void> {
+        const { culture, options } = this.getPseudoLocaleSettings();
+        const file = resxSet.find(f => f.language !== 'default' && f.language.toLowerCase() === culture.toLowerCase());
+        if (!file) {
+            return;
+        }
+
+        const defaultFile = ResxFile.parse(document.getText());
+        const edit = new vscode.WorkspaceEdit();
+        this.writeResxFile(edit, file.document, resx => syncPseudoLocaleFile(resx, defaultFile, options));
+        if (edit.size > 0) {
+            await vscode.workspace.applyEdit(edit);
+        }
+    }
+
+    private replaceDocumentText(edit: vscode.WorkspaceEdit, document: vscode.TextDocument, newText: string): void {
+        const oldText = document.getText();
+        if (oldText === newText) {
+            return;
+        }
+
+        // Only replace the span that actually changed so the undo stop and dirty diff stay small.
+        let start = 0;
+        while (start < oldText.length && start < newText.length && oldText[start] === newText[start]) {
+            start++;
+        }
+        let oldEnd = oldText.length;
+        let newEnd = newText.length;
+        while (oldEnd > start && newEnd > start && oldText[oldEnd - 1] === newText[newEnd - 1]) {
+            oldEnd--;
+            newEnd--;
+        }
+
+        const range = new vscode.Range(document.positionAt(start), document.positionAt(oldEnd));
+        edit.replace(document.uri, range, newText.slice(start, newEnd));
+    }
+
+    /** Writes a value typed into the grid; returns false when the resource cannot take it, so the cell is reset. */
+    private async updateValue(resxSet: ResxSetFile[], key: string, language: string, value: string): Promise<boolean> {
+        const file = resxSet.find(f => f.language === language);
+        if (!file) {
+            return true;
+        }
+
+        // A culture without its own entry takes the default's type, so a localized Int32 stays an Int32.
+        const defaultFile = resxSet.find(f => f.language === 'default');
+        const template = ResxFile.parse(file.document.getText()).get(key)
+            ?? (defaultFile && ResxFile.parse(defaultFile.document.getText()).get(key));
+        if (template && !isStringEntry(template)) {
+            const problem = checkResourceValue(template, value);
+            if (problem) {
+                const uiLanguage = this.resolveUiLanguage();
+                const type = describeResource(template).typeName;
+                vscode.window.showErrorMessage(problem === 'readOnly'
+                    ? this.t(uiLanguage, 'readOnlyResource', { key, type })
+                    : this.t(uiLanguage, 'invalidTypedValue', { key, type, value }));
+                return false;
+            }
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        this.writeResxFile(edit, file.document, resx => resx.has(key)
+            ? resx.setValue(key, value)
+            : resx.add({ name: key, value, type: template?.type, mimetype: template?.mimetype }));
+        await this.applyGridEdit(edit);
+        return true;
+    }
+
+    private async updateComment(resxSet: ResxSetFile[], key: string, language: string, comment: string): Promise<void> {
+        const file = resxSet.find(f => f.language === language);
+        if (!file) {
+            return;
+        }
 
-                // Account for borders/padding/scrollbar rounding so we reliably eliminate horizontal overflow.
-                const overhead = 48;
-                const available = Math.max(0, containerWidth - keyWidth - actionWidth - overhead);
-                const perLang = Math.max(60, Math.floor(available / Math.max(1, languageCols.length)));
+        const edit = new vscode.WorkspaceEdit();
+        this.writeResxFile(edit, file.document, resx => {
+            if (resx.has(key)) {
+                return resx.setComment(key, comment);
+            }
+            return comment ? resx.add({ name: key, value: '', comment }) : false;
+        });
+        await this.applyGridEdit(edit);
+    }
+
+    /** Absolute path of a file a `ResXFileRef` points to; the path is relative to the .resx folder and may use backslashes. */
+    private resolveFileRef(document: vscode.TextDocument, filePath: string): string {
+        return path.resolve(path.dirname(document.uri.fsPath), filePath.split(/[\\/]/).join(path.sep));
+    }
 
-                const next = Object.assign({}, columnWidths, { __key: keyWidth, __actions: actionWidth });
-                for (const lang of languageCols) {
-                    next[lang] = perLang;
+    /** Type column data for every non-string key, with previews of embedded and referenced images. */
+    private describeGridResources(document: vscode.TextDocument, resxData: ResxDocument): Record<string, GridResource> {
+        const resources: Record<string, GridResource> = {};
+        const files = [resxData['default'], ...Object.values(resxData)].filter((file): file is ResxFile => !!file);
+        for (const file of files) {
+            for (const entry of file.entries) {
+                if (resources[entry.name] || isStringEntry(entry)) {
+                    continue;
+                }
+                const info = describeResource(entry);
+                const resource: GridResource = { kind: info.kind, typeName: info.typeName };
+                if (info.kind === 'image') {
+                    resource.preview = this.toImageDataUri(decodeBase64Value(entry.value));
+                } else if (info.kind === 'fileRef') {
+                    resource.file = parseFileRef(entry.value)?.path;
+                    if (resource.file) {
+                        resource.preview = this.getFilePreview(this.resolveFileRef(document, resource.file));
+                    }
                 }
+                resources[entry.name] = resource;
+            }
+        }
+        return resources;
+    }
 
-                columnWidths = next;
-                fitMode = true;
-                applyFitModeClass();
-                applyColumnWidths();
-                persistLayout();
-            };
+    private toImageDataUri(bytes: Buffer): string | undefined {
+        const mimeType = bytes.length <= MAX_PREVIEW_BYTES ? getImageMimeType(bytes) : undefined;
+        return mimeType ? `data:${mimeType};base64,${bytes.toString('base64')}` : undefined;
+    }
 
-            window.fitColumns = function() {
-                fitColumnsToWindow();
-            };
+    private getFilePreview(filePath: string): string | undefined {
+        let stat: fs.Stats;
+        try {
+            stat = fs.statSync(filePath);
+        } catch {
+            return undefined;
+        }
+        const cached = this.filePreviews.get(filePath);
+        if (cached?.mtimeMs === stat.mtimeMs) {
+            return cached.preview;
+        }
+        const preview = stat.isFile() && stat.size <= MAX_PREVIEW_BYTES ? this.toImageDataUri(fs.readFileSync(filePath)) : undefined;
+        this.filePreviews.set(filePath, { mtimeMs: stat.mtimeMs, preview });
+        return preview;
+    }
 
-            const fitColumnsBtn = document.getElementById('fitColumnsBtn');
-            if (fitColumnsBtn) {
-                fitColumnsBtn.addEventListener('click', () => {
-                    fitColumnsToWindow();
-                });
+    private async openFileRef(resxSet: ResxSetFile[], key: string, language: string): Promise<void> {
+        const file = resxSet.find(f => f.language === language);
+        const entry = file && ResxFile.parse(file.document.getText()).get(key);
+        const fileRef = entry && parseFileRef(entry.value);
+        if (!file || !fileRef) {
+            return;
+        }
+
+        const target = this.resolveFileRef(file.document, fileRef.path);
+        if (!fs.existsSync(target)) {
+            vscode.window.showErrorMessage(this.t(this.resolveUiLanguage(), 'fileRefNotFound', { file: fileRef.path }));
+            return;
+        }
+        await vscode.commands.executeCommand('vscode.open', vscode.Uri.file(target));
+    }
+
+    /** Adds picked files to the default file as `ResXFileRef` entries named after the files. */
+    private async addFileResources(session: EditorSession): Promise<void> {
+        const uiLanguage = this.resolveUiLanguage();
+        const uris = await vscode.window.showOpenDialog({
+            canSelectMany: true,
+            defaultUri: vscode.Uri.joinPath(session.document.uri, '..'),
+            openLabel: this.t(uiLanguage, 'addFileResourceOpenLabel'),
+        });
+        if (!uris || uris.length === 0) {
+            return;
+        }
+
+        const resxSet = await this.openResxSet(session.document);
+        const taken = new Set(Object.values(await this.getExistingKeys(resxSet)).flat().map(key => key.toLowerCase()));
+        const resxDir = path.dirname(session.document.uri.fsPath);
+        const entries = uris.map(uri => {
+            // Keys must be identifiers for the generated accessors, and unique ignoring case like Visual Studio requires.
+            const baseName = toIdentifier(path.basename(uri.fsPath, path.extname(uri.fsPath)));
+            let name = baseName;
+            for (let i = 2; taken.has(name.toLowerCase()); i++) {
+                name = `${baseName}${i}`;
             }
+            taken.add(name.toLowerCase());
+            return createFileRefEntry(name, path.relative(resxDir, uri.fsPath));
+        });
 
-            const uiLanguageSelect = document.getElementById('uiLanguageSelect');
-            if (uiLanguageSelect) {
-                uiLanguageSelect.value = uiLanguageSetting;
-                uiLanguageSelect.addEventListener('change', () => {
-                    vscode.postMessage({
-                        type: 'setUiLanguage',
-                        value: uiLanguageSelect.value
-                    });
+        const edit = new vscode.WorkspaceEdit();
+        this.writeResxFile(edit, session.document, resx => entries.reduce((changed, entry) => resx.add(entry) || changed, false));
+        if (!await this.applyGridEdit(edit)) {
+            return;
+        }
+        session.revealKey(entries[0].name);
+        vscode.window.showInformationMessage(this.t(uiLanguage, 'addedFileResources', {
+            count: String(entries.length),
+            keys: entries.map(entry => entry.name).join(', '),
+        }));
+    }
+
+    private toFindReplaceOptions(message: FindReplaceMessage): FindReplaceOptions {
+        return {
+            find: String(message.find ?? ''),
+            replace: String(message.replace ?? ''),
+            regex: !!message.regex,
+            matchCase: !!message.matchCase,
+            languages: Array.isArray(message.languages) ? message.languages.map(String) : undefined,
+            keys: Array.isArray(message.keys) ? message.keys.map(String) : undefined,
+        };
+    }
+
+    private countReplacements(replacements: Replacement[]): Record<string, string> {
+        const matches = replacements.reduce((sum, r) => sum + r.matches, 0);
+        return { matches: String(matches), cells: String(replacements.length) };
+    }
+
+    /** Applies every replacement across all cultures as a single undoable edit. */
+    private async replaceAll(resxSet: ResxSetFile[], options: FindReplaceOptions): Promise<Replacement[]> {
+        const replacements = findReplacements(await this.loadResxFiles(resxSet), options);
+        const edit = new vscode.WorkspaceEdit();
+
+        for (const file of resxSet) {
+            const forFile = replacements.filter(r => r.language === file.language);
+            if (forFile.length > 0) {
+                this.writeResxFile(edit, file.document, resx => {
+                    let changed = false;
+                    for (const replacement of forFile) {
+                        changed = resx.setValue(replacement.key, replacement.after) || changed;
+                    }
+                    return changed;
                 });
             }
+        }
 
-            const installResizeHandles = () => {
-                const handles = document.querySelectorAll('.resize-handle');
-                for (const handle of handles) {
-                    handle.addEventListener('mousedown', (e) => {
-                        e.preventDefault();
-                        e.stopPropagation();
-                        const colKey = handle.getAttribute('data-col-key');
-                        if (!colKey) return;
+        await this.applyGridEdit(edit);
+        return replacements;
+    }
 
-                        // manual resize disables fit mode
-                        fitMode = false;
-                        applyFitModeClass();
+    private async addNewRow(resxSet: ResxSetFile[], key: string): Promise<void> {
+        const edit = new vscode.WorkspaceEdit();
 
-                        const colEl = getColElement(colKey);
-                        if (!colEl) {
-                            return;
-                        }
+        // Add to the default file and all language-specific files in one undoable edit
+        for (const file of resxSet) {
+            this.writeResxFile(edit, file.document, resx => resx.add({ name: key, value: '' }));
+        }
 
-                        const startX = e.clientX;
-                        const defaultWidth = (defaultColumnWidths[colKey] !== undefined && defaultColumnWidths[colKey] !== null) ? defaultColumnWidths[colKey] : 200;
-                        const startWidth = Number.parseFloat(colEl.style.width || '0') || defaultWidth;
-                        const minWidth = colKey === '__actions' ? 60 : 80;
-
-                        document.body.style.userSelect = 'none';
-                        document.body.style.cursor = 'col-resize';
-
-                        const onMove = (moveEvent) => {
-                            const delta = moveEvent.clientX - startX;
-                            const nextWidth = Math.max(minWidth, Math.round(startWidth + delta));
-                            columnWidths = Object.assign({}, columnWidths, { [colKey]: nextWidth });
-                            colEl.style.width = String(nextWidth) + 'px';
-                        };
-
-                        const onUp = () => {
-                            window.removeEventListener('mousemove', onMove);
-                            window.removeEventListener('mouseup', onUp);
-                            document.body.style.userSelect = '';
-                            document.body.style.cursor = '';
-                            persistLayout();
-                        };
-
-                        window.addEventListener('mousemove', onMove);
-                        window.addEventListener('mouseup', onUp);
-                    });
+        await this.applyGridEdit(edit);
+    }
+
+    /** Removes `keys` from the default file and every culture file as one undoable edit. */
+    private async deleteRows(resxSet: ResxSetFile[], keys: string[]): Promise<void> {
+        const edit = new vscode.WorkspaceEdit();
+
+        for (const file of resxSet) {
+            this.writeResxFile(edit, file.document, resx => {
+                let changed = false;
+                for (const key of keys) {
+                    changed = resx.remove(key) || changed;
                 }
-            };
+                return changed;
+            });
+        }
 
-            // Initial layout
-            applyFitModeClass();
-            applyColumnWidths();
-            installResizeHandles();
+        await this.applyGridEdit(edit);
+    }
 
-            // Default to Fit Columns on first open; if user manually resizes, fitMode is turned off.
-            if (fitMode) {
-                fitColumnsToWindow();
+    private async renameKey(resxSet: ResxSetFile[], oldKey: string, newKey: string): Promise<void> {
+        if (!newKey || oldKey === newKey) {
+            return;
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+
+        for (const file of resxSet) {
+            this.writeResxFile(edit, file.document, resx => resx.rename(oldKey, newKey));
+        }
+
+        await this.applyGridEdit(edit);
+    }
+
+    /** The provider `resxEditor.translation.provider` selects; a relative dictionary path is resolved against the workspace folder. */
+    private async createTranslationProvider(document: vscode.TextDocument): Promise<TranslationProvider> {
+        const config = vscode.workspace.getConfiguration('resxEditor.translation');
+        if (config.get<string>('provider', 'libretranslate') !== 'dictionary') {
+            return new HttpTranslationProvider(
+                config.get<string>('endpoint', 'http://localhost:5000/translate'),
+                config.get<string>('apiKey', '') || undefined
+            );
+        }
+
+        const configured = config.get<string>('dictionaryPath', '');
+        if (!configured) {
+            throw new TranslationError('resxEditor.translation.dictionaryPath is not set');
+        }
+        const folder = vscode.workspace.getWorkspaceFolder(document.uri)?.uri ?? vscode.Uri.joinPath(document.uri, '..');
+        const uri = path.isAbsolute(configured) ? vscode.Uri.file(configured) : vscode.Uri.joinPath(folder, configured);
+        try {
+            return DictionaryTranslationProvider.parse(Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf-8'));
+        } catch (error) {
+            throw new TranslationError(`${uri.fsPath}: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    /**
+     * Machine-translates the default value of every missing or empty cell of `language` (or only `keys`) and
+     * keeps the results as suggestions. Non-string resources, empty default values and cells that already
+     * have a suggestion are skipped.
+     */
+    private async translateMissing(resxSet: ResxSetFile[], suggestions: SuggestionMap, language: string, keys?: string[]): Promise<void> {
+        const uiLanguage = this.resolveUiLanguage();
+        const resxData = await this.loadResxFiles(resxSet);
+        const defaultFile = resxData['default'];
+        const file = resxData[language];
+        if (!defaultFile || !file || language === 'default') {
+            return;
+        }
+
+        const pending = suggestions.get(language) ?? new Map<string, string>();
+        const candidates = (keys ?? defaultFile.keys()).filter(key => {
+            const source = defaultFile.get(key);
+            const state = getCellState(source, file.get(key));
+            return source !== undefined && isStringEntry(source) && source.value !== ''
+                && (state === 'missing' || state === 'empty') && !pending.has(key);
+        });
+        if (candidates.length === 0) {
+            vscode.window.showInformationMessage(this.t(uiLanguage, 'nothingToTranslate', { culture: language }));
+            return;
+        }
+
+        let results: (string | undefined)[];
+        try {
+            const provider = await this.createTranslationProvider(resxSet[0].document);
+            results = await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: this.t(uiLanguage, 'translating', { count: String(candidates.length), culture: language }),
+                    cancellable: true,
+                },
+                (_progress, token) => {
+                    const controller = new AbortController();
+                    token.onCancellationRequested(() => controller.abort());
+                    return translateTexts(
+                        provider,
+                        candidates.map(key => defaultFile.get(key)!.value),
+                        this.getLanguageTag('default'),
+                        this.getLanguageTag(language),
+                        controller.signal
+                    );
+                }
+            );
+        } catch (error) {
+            if (!(error instanceof Error && error.name === 'AbortError')) {
+                vscode.window.showErrorMessage(this.t(uiLanguage, 'translationFailed', { error: error instanceof Error ? error.message : String(error) }));
             }
+            return;
+        }
+
+        results.forEach((text, i) => {
+            if (text !== undefined) {
+                pending.set(candidates[i], text);
+            }
+        });
+        suggestions.set(language, pending);
+        const count = results.filter(text => text !== undefined).length;
+        vscode.window.showInformationMessage(this.t(uiLanguage, 'translatedSuggestions', {
+            count: String(count),
+            culture: language,
+            failed: String(results.length - count),
+        }));
+    }
 
-            window.addEventListener('resize', () => {
-                if (fitMode) {
-                    fitColumnsToWindow();
+    /** Removes the suggestions for `keys` (all of `language`'s when omitted) and returns them. */
+    private takeSuggestions(suggestions: SuggestionMap, language: string, keys?: string[]): [string, string][] {
+        const pending = suggestions.get(language);
+        if (!pending) {
+            return [];
+        }
+        const taken: [string, string][] = [];
+        for (const key of keys ?? [...pending.keys()]) {
+            const value = pending.get(key);
+            if (value !== undefined) {
+                taken.push([key, value]);
+                pending.delete(key);
+            }
+        }
+        return taken;
+    }
+
+    /** Writes accepted suggestions into the culture file as one undoable edit. */
+    private async acceptSuggestions(resxSet: ResxSetFile[], language: string, accepted: [string, string][]): Promise<void> {
+        const file = resxSet.find(f => f.language === language);
+        if (!file || accepted.length === 0) {
+            return;
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        this.writeResxFile(edit, file.document, resx => {
+            let changed = false;
+            for (const [key, value] of accepted) {
+                changed = (resx.has(key) ? resx.setValue(key, value) : resx.add({ name: key, value })) || changed;
+            }
+            return changed;
+        });
+        await this.applyGridEdit(edit);
+    }
+
+    private getTranslationMemory(): Promise<TranslationMemory> {
+        if (!this.translationMemory) {
+            this.translationMemory = (async () => {
+                const memory = new TranslationMemory();
+                for (const set of await this.index.getSets()) {
+                    memory.add(set.uri.toString(), await this.index.loadSet(set));
                 }
-            });
+                return memory;
+            })();
+        }
+        return this.translationMemory;
+    }
+
+    /** `Messages › Title`: the set's base name and the key. */
+    private describeOccurrence(occurrence: MemoryOccurrence): string {
+        return `${path.basename(vscode.Uri.parse(occurrence.set).fsPath, '.resx')} › ${occurrence.key}`;
+    }
+
+    /** Translations elsewhere in the workspace of default values like `key`'s, for the culture cell being edited. */
+    private async lookupTranslationMemory(document: vscode.TextDocument, key: string, language: string): Promise<{ target: string; source: string; similarity: number; where: string }[]> {
+        const source = ResxFile.parse(document.getText()).get(key);
+        if (language === 'default' || !source || !isStringEntry(source) || !source.value.trim()) {
+            return [];
+        }
+        const memory = await this.getTranslationMemory();
+        const minSimilarity = vscode.workspace.getConfiguration().get<number>('resxEditor.translationMemory.minSimilarity', 0.75);
+        return memory.lookup(source.value, language, { minSimilarity, limit: 8, exclude: { set: document.uri.toString(), key } }).map(match => ({
+            target: match.target,
+            source: match.source,
+            similarity: Math.floor(match.similarity * 100),
+            where: match.occurrences.slice(0, 3).map(o => this.describeOccurrence(o)).join(', ')
+                + (match.occurrences.length > 3 ? ` +${match.occurrences.length - 3}` : ''),
+        }));
+    }
+
+    /**
+     * Lists default values translated more than one way into the same culture across the workspace. Picking
+     * a translation opens the Resx Editor where it is used, after asking which place when there are several.
+     */
+    private async showConsistencyReport(): Promise<void> {
+        const uiLanguage = this.resolveUiLanguage();
+        const inconsistencies = (await this.getTranslationMemory()).findInconsistencies();
+        if (inconsistencies.length === 0) {
+            vscode.window.showInformationMessage(this.t(uiLanguage, 'noInconsistencies'));
+            return;
+        }
+
+        type Item = vscode.QuickPickItem & { occurrences?: MemoryOccurrence[] };
+        const items: Item[] = inconsistencies.flatMap(inconsistency => [
+            { label: `${inconsistency.culture}: ${inconsistency.source}`, kind: vscode.QuickPickItemKind.Separator },
+            ...inconsistency.translations.map(translation => ({
+                label: translation.target,
+                description: this.t(uiLanguage, 'translationUses', { count: String(translation.occurrences.length) }),
+                detail: translation.occurrences.map(o => this.describeOccurrence(o)).join(', '),
+                occurrences: translation.occurrences,
+            })),
+        ]);
+        const picked = await vscode.window.showQuickPick(items, {
+            placeHolder: this.t(uiLanguage, 'pickInconsistency', { count: String(inconsistencies.length) }),
+            matchOnDetail: true,
+        });
+        if (!picked?.occurrences) {
+            return;
+        }
+
+        let occurrence: MemoryOccurrence | undefined = picked.occurrences[0];
+        if (picked.occurrences.length > 1) {
+            const choice = await vscode.window.showQuickPick(
+                picked.occurrences.map(o => ({ label: this.describeOccurrence(o), description: vscode.workspace.asRelativePath(vscode.Uri.parse(o.set)), occurrence: o })),
+                { placeHolder: this.t(uiLanguage, 'pickOccurrence', { target: picked.label }) }
+            );
+            occurrence = choice?.occurrence;
+        }
+        if (occurrence) {
+            await vscode.commands.executeCommand('resxEditor.revealKey', occurrence.set, occurrence.key);
+        }
+    }
+
+    /** Restores one cell to its committed version: re-adds a removed entry, resets a changed one, or removes an added one. */
+    private async revertCell(resxSet: ResxSetFile[], baseline: ResxDocument, key: string, language: string): Promise<void> {
+        const file = resxSet.find(f => f.language === language);
+        if (!file) {
+            return;
+        }
+
+        const committed = baseline[language]?.get(key);
+        const edit = new vscode.WorkspaceEdit();
+        this.writeResxFile(edit, file.document, resx => {
+            if (!committed) {
+                return resx.remove(key);
+            }
+            if (!resx.has(key)) {
+                return resx.add(committed);
+            }
+            const valueChanged = resx.setValue(key, committed.value);
+            return resx.setComment(key, committed.comment ?? '') || valueChanged;
+        });
+        await this.applyGridEdit(edit);
+    }
+
+    /** Applies one of the fixes `checkKeyConsistency` offers; `deleteKey` goes through the confirmed row delete instead. */
+    private async fixKeyIssue(resxSet: ResxSetFile[], fix: KeyIssueFix, key: string, language: string, other?: string): Promise<void> {
+        const file = resxSet.find(f => f.language === language);
+        const defaultFile = resxSet.find(f => f.language === 'default');
+        if (!file || !defaultFile) {
+            return;
+        }
 
-            window.updateValue = function(element, key, language) {
-                if (!data[language]) {
-                    data[language] = {};
+        const edit = new vscode.WorkspaceEdit();
+        switch (fix) {
+            case 'removeDuplicates':
+                this.writeResxFile(edit, file.document, resx => resx.removeDuplicates(key));
+                break;
+            case 'addToDefault': {
+                const entry = ResxFile.parse(file.document.getText()).get(key);
+                this.writeResxFile(edit, defaultFile.document, resx => !resx.has(key) && resx.add({ name: key, value: entry?.value ?? '', type: entry?.type, mimetype: entry?.mimetype }));
+                break;
+            }
+            case 'deleteFromCulture':
+                this.writeResxFile(edit, file.document, resx => resx.remove(key));
+                break;
+            case 'renameToMatch':
+                if (other) {
+                    this.writeResxFile(edit, file.document, resx => resx.rename(key, other));
                 }
-                if (!data[language][key]) {
-                    data[language][key] = { name: key, value: '' };
+                break;
+        }
+        await this.applyGridEdit(edit);
+    }
+
+    /** Builds the `update` message for the webview, with cell data only for `languages`. */
+    private buildGridUpdate(
+        resxData: ResxDocument,
+        issues: ValidationIssue[],
+        keyIssues: KeyIssue[],
+        languages: string[],
+        unused: string[] = [],
+        suggestions: SuggestionMap = new Map(),
+        baseline?: ResxDocument,
+        resources: Record<string, GridResource> = {}
+    ): GridUpdate {
+        const uiLanguage = this.resolveUiLanguage();
+        const displayLocale = uiLanguage === 'zh-cn' ? 'zh-CN' : 'en';
+        const allLanguages = Object.keys(resxData);
+        const allKeys = new Set<string>();
+
+        for (const file of Object.values(resxData)) {
+            for (const key of file.keys()) {
+                allKeys.add(key);
+            }
+        }
+
+        const diff = baseline ? diffResxDocuments(baseline, resxData) : undefined;
+        for (const key of diff?.removedKeys ?? []) {
+            allKeys.add(key);
+        }
+
+        const issuesByCell = new Map<string, ValidationIssue[]>();
+        for (const issue of issues) {
+            const cellId = `${issue.key}\u0000${issue.language}`;
+            issuesByCell.set(cellId, [...(issuesByCell.get(cellId) ?? []), issue]);
+        }
+
+        const headers: Record<string, GridColumnHeader> = {};
+        for (const language of allLanguages) {
+            if (language === 'default') {
+                continue;
+            }
+            const completion = getCultureCompletion(resxData, language);
+            const pending = suggestions.get(language);
+            // Drop suggestions for cells that were translated some other way, e.g. by undo or another editor.
+            for (const key of pending?.keys() ?? []) {
+                const state = getCellState(resxData['default']?.get(key), resxData[language].get(key));
+                if (state !== 'missing' && state !== 'empty') {
+                    pending!.delete(key);
                 }
-                data[language][key].value = element.value;
+            }
+            headers[language] = {
+                label: getCultureDisplayName(language, displayLocale),
+                percent: completion.percent,
+                tooltip: `${language} - ${this.t(uiLanguage, 'completionTooltip', { translated: String(completion.translated), total: String(completion.total) })}`,
+                suggestions: pending?.size ?? 0,
             };
+        }
 
-            window.updateKey = function(element) {
-                const oldKey = element.closest('tr').dataset.key;
-                const newKey = element.value;
-                
-                if (oldKey !== newKey && newKey) {
-                    const languages = Object.keys(data);
-                    for (const lang of languages) {
-                        if (data[lang][oldKey]) {
-                            data[lang][newKey] = { ...data[lang][oldKey], name: newKey };
-                            delete data[lang][oldKey];
-                        }
+        const columns: Record<string, Record<string, GridCell>> = {};
+        for (const language of languages) {
+            const file = resxData[language];
+            if (!file) {
+                continue;
+            }
+            const cells: Record<string, GridCell> = {};
+            for (const key of allKeys) {
+                const entry = file.get(key);
+                const cellIssues = issuesByCell.get(`${key}\u0000${language}`);
+                cells[key] = {
+                    value: entry?.value ?? '',
+                    comment: entry?.comment ?? '',
+                    state: getCellState(resxData['default']?.get(key), entry),
+                };
+                // A missing culture cell of an image or typed resource is still that kind of resource.
+                const resourceEntry = entry ?? resxData['default']?.get(key);
+                if (resourceEntry && !isStringEntry(resourceEntry)) {
+                    const info = describeResource(resourceEntry);
+                    cells[key].resource = { kind: info.kind, editable: info.editable };
+                    if (entry && (info.kind === 'image' || info.kind === 'binary')) {
+                        cells[key].value = `${info.typeName}, ${formatByteSize(decodeBase64Value(entry.value).length)}`;
+                    } else if (entry && info.kind === 'fileRef') {
+                        cells[key].value = parseFileRef(entry.value)?.path ?? entry.value;
                     }
-                    element.closest('tr').dataset.key = newKey;
                 }
-            };
+                if (cellIssues) {
+                    cells[key].issues = cellIssues.map(i => ({ severity: i.severity, message: i.message }));
+                }
+                const suggestion = suggestions.get(language)?.get(key);
+                if (suggestion !== undefined) {
+                    cells[key].suggestion = suggestion;
+                }
+                const change = diff?.cells.get(language)?.get(key);
+                if (change) {
+                    cells[key].change = change;
+                }
+            }
+            columns[language] = cells;
+        }
 
-            window.addRow = function() {
-                vscode.postMessage({
-                    type: 'requestAddRow'
-                });
-            };
+        return {
+            type: 'update',
+            keys: Array.from(allKeys),
+            languages: allLanguages,
+            headers,
+            columns,
+            unused: unused.filter(key => allKeys.has(key)),
+            keyIssues,
+            compare: diff !== undefined,
+            removedKeys: diff?.removedKeys ?? [],
+            resources,
+        };
+    }
 
-            window.deleteRow = function(key) {
-                vscode.postMessage({
-                    type: 'requestDeleteRow',
-                    key: key
-                });
-            };
+    private getHtmlForWebview(webview: vscode.Webview): string {
+        const uiLanguage = this.resolveUiLanguage();
+        const s = (key: UiStringKey) => this.t(uiLanguage, key);
+        const uiLanguageSetting = vscode.workspace.getConfiguration().get<string>('resxEditor.uiLanguage', 'auto');
+        const mediaUri = vscode.Uri.joinPath(this.context.extensionUri, 'media');
+        const scriptUri = webview.asWebviewUri(vscode.Uri.joinPath(mediaUri, 'resxEditor.js'));
+        const styleUri = webview.asWebviewUri(vscode.Uri.joinPath(mediaUri, 'resxEditor.css'));
 
-            window.saveData = function() {
-                vscode.postMessage({
-                    type: 'save',
-                    data: data
-                });
-            };
+        const escapeHtml = (str: string) => {
+            return str
+                .replace(/&/g, '&amp;')
+                .replace(/</g, '&lt;')
+                .replace(/>/g, '&gt;')
+                .replace(/"/g, '&quot;')
+                .replace(/'/g, '&#39;');
+        };
+
+        const webviewStrings: UiStringKey[] = [
+            'key', 'default', 'actions', 'comment', 'commentPlaceholder', 'missingPlaceholder', 'renameKey', 'delete', 'sortHint',
+            'unusedKey', 'deleteUnused', 'keyIssues', 'fixRemoveDuplicates', 'fixAddToDefault', 'fixDeleteFromCulture',
+            'fixRenameToMatch', 'translateMissing', 'translateCell', 'acceptSuggestion', 'rejectSuggestion',
+            'acceptAllSuggestions', 'rejectAllSuggestions', 'machineTranslated', 'changeAdded', 'changeRemoved', 'changeChanged',
+            'revertCell', 'translationMemory', 'type', 'openFile'
+        ];
+        const webviewConfig = {
+            uiLanguageSetting,
+            strings: Object.fromEntries(webviewStrings.map(key => [key, s(key)])),
+        };
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Resx Editor</title>
+    <link rel="stylesheet" href="${styleUri}">
+</head>
+<body>
+    <div class="toolbar">
+        <button id="addRowBtn">${escapeHtml(s('addNewKey'))}</button>
+        <button id="fitColumnsBtn">${escapeHtml(s('fitColumns'))}</button>
+        <button id="saveAllBtn">${escapeHtml(s('saveAll'))}</button>
+        <button id="findReplaceBtn">${escapeHtml(s('findReplace'))}</button>
+        <button id="addCultureBtn">${escapeHtml(s('addCulture'))}</button>
+        <button id="removeCultureBtn">${escapeHtml(s('removeCulture'))}</button>
+        <button id="deleteUnusedBtn" hidden>${escapeHtml(s('deleteUnused'))}</button>
+        <button id="keyIssuesBtn" hidden>${escapeHtml(s('keyIssues'))}</button>
+        <button id="compareBtn">${escapeHtml(s('compareWithHead'))}</button>
+        <button id="addFileResourceBtn">${escapeHtml(s('addFileResource'))}</button>
+
+        <div class="toolbar-setting filter-bar search-bar">
+            <input type="text" id="searchInput" placeholder="${escapeHtml(s('searchPlaceholder'))}" />
+            <button id="matchCaseBtn" class="toggle-btn" title="${escapeHtml(s('matchCase'))}">Aa</button>
+            <button id="useRegexBtn" class="toggle-btn" title="${escapeHtml(s('useRegex'))}">.*</button>
+        </div>
+        <div class="toolbar-setting filter-bar">
+            <label for="commentModeSelect">${escapeHtml(s('comments'))}</label>
+            <select id="commentModeSelect">
+                <option value="off">${escapeHtml(s('commentsOff'))}</option>
+                <option value="default">${escapeHtml(s('commentsDefault'))}</option>
+                <option value="all">${escapeHtml(s('commentsAll'))}</option>
+            </select>
+        </div>
+        <div class="toolbar-setting filter-bar">
+            <label for="stateFilterSelect">${escapeHtml(s('showRows'))}</label>
+            <select id="stateFilterSelect">
+                <option value="">${escapeHtml(s('filterAll'))}</option>
+                <option value="untranslated">${escapeHtml(s('filterUntranslated'))}</option>
+                <option value="missing">${escapeHtml(s('filterMissing'))}</option>
+                <option value="empty">${escapeHtml(s('filterEmpty'))}</option>
+                <option value="same">${escapeHtml(s('filterSame'))}</option>
+                <option value="unused">${escapeHtml(s('filterUnused'))}</option>
+                <option value="keyIssues">${escapeHtml(s('filterKeyIssues'))}</option>
+                <option value="needsReview">${escapeHtml(s('filterNeedsReview'))}</option>
+                <option value="changed">${escapeHtml(s('filterChanged'))}</option>
+            </select>
+            <label for="cultureFilterSelect">${escapeHtml(s('inCulture'))}</label>
+            <select id="cultureFilterSelect">
+                <option value="">${escapeHtml(s('allCultures'))}</option>
+            </select>
+        </div>
+
+        <span class="toolbar-spacer"></span>
+        <div class="toolbar-setting">
+            <label for="uiLanguageSelect">${escapeHtml(s('uiLanguage'))}</label>
+            <select id="uiLanguageSelect">
+                <option value="auto">${escapeHtml(s('uiLanguageAuto'))}</option>
+                <option value="en">${escapeHtml(s('uiLanguageEn'))}</option>
+                <option value="zh-cn">${escapeHtml(s('uiLanguageZhCn'))}</option>
+            </select>
+        </div>
+    </div>
+
+    <div class="replace-panel" id="replacePanel" hidden>
+        <div class="replace-row">
+            <input type="text" id="findInput" placeholder="${escapeHtml(s('findPlaceholder'))}" />
+            <button id="replaceMatchCaseBtn" class="toggle-btn" title="${escapeHtml(s('matchCase'))}">Aa</button>
+            <button id="replaceUseRegexBtn" class="toggle-btn" title="${escapeHtml(s('useRegex'))}">.*</button>
+            <input type="text" id="replaceInput" placeholder="${escapeHtml(s('replacePlaceholder'))}" />
+            <select id="replaceScopeSelect">
+                <option value="all">${escapeHtml(s('replaceScopeAllKeys'))}</option>
+                <option value="shown">${escapeHtml(s('replaceScopeShownRows'))}</option>
+            </select>
+            <button id="replacePreviewBtn">${escapeHtml(s('replacePreview'))}</button>
+            <button id="replaceAllBtn">${escapeHtml(s('replaceAll'))}</button>
+        </div>
+        <div class="replace-row" id="replaceCultures"></div>
+        <div class="replace-summary" id="replaceSummary"></div>
+        <div class="replace-results" id="replaceResults"></div>
+    </div>
+
+    <div class="key-issues-panel" id="keyIssuesPanel" hidden></div>
+    <div class="memory-panel" id="memoryPanel" hidden></div>
+
+    <div class="grid-container" id="gridContainer">
+        <table id="resxTable">
+            <colgroup></colgroup>
+            <thead>
+                <tr></tr>
+            </thead>
+            <tbody></tbody>
+        </table>
+    </div>
 
-            console.log('Resx Editor initialized');
-        })();
-    </script>
+    <script id="resxEditorConfig" type="application/json">${JSON.stringify(webviewConfig).replace(/</g, '\\u003c')}</script>
+    <script src="${scriptUri}"></script>
 </body>
 </html>`;
     }
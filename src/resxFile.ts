@@ -0,0 +1,444 @@
+import {
+    XmlElement,
+    decodeText,
+    encodeAttribute,
+    encodeText,
+    getAttribute,
+    getChild,
+    parseXml,
+    rebase,
+} from './xml';
+
+export interface ResxEntry {
+    name: string;
+    value: string;
+    comment?: string;
+    type?: string;
+    mimetype?: string;
+}
+
+/** True for plain text resources; typed values, file references and binary blobs carry a non-string `type` or a `mimetype`. */
+export function isStringEntry(entry: ResxEntry): boolean {
+    if (entry.mimetype) {
+        return false;
+    }
+    return !entry.type || /^System\.String(,|$)/.test(entry.type);
+}
+
+/** Orders resource names case-insensitively, falling back to ordinal order so the result is deterministic. */
+export function compareResourceNames(a: string, b: string): number {
+    const lowerA = a.toLowerCase();
+    const lowerB = b.toLowerCase();
+    if (lowerA !== lowerB) {
+        return lowerA < lowerB ? -1 : 1;
+    }
+    return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/** The default culture (`'default'`) and every culture file of one resx set, keyed by culture name. */
+export interface ResxDocument {
+    [language: string]: ResxFile;
+}
+
+/**
+ * A `<data>` node together with its position in the file. `element` offsets are relative to `start`
+ * so that edits elsewhere in the file only need to shift `start`/`end`.
+ */
+interface DataNode {
+    start: number;
+    end: number;
+    element: XmlElement;
+    entry: ResxEntry;
+}
+
+/**
+ * A single .resx file kept as its original text. Reads go through the parsed `<data>` nodes; writes
+ * splice only the affected node back into the text, so schema, resheaders, `<assembly>`, `<metadata>`,
+ * comments, attribute order and whitespace all survive a round trip untouched.
+ */
+export class ResxFile {
+    private nodes: DataNode[] = [];
+    /** Name to last node with that name; rebuilt lazily after nodes are added, removed or renamed. */
+    private index: Map<string, DataNode> | undefined;
+    private rootCloseStart = -1;
+    private rootSelfClosing = false;
+    private readonly newline: string;
+    private readonly indent: string;
+    private readonly childIndent: string;
+
+    private constructor(private text: string) {
+        this.newline = text.includes('\r\n') ? '\r\n' : '\n';
+
+        const root = parseXml(text).find(e => e.name === 'root');
+        if (!root) {
+            throw new Error('Invalid resx: missing <root> element');
+        }
+        this.rootCloseStart = root.closeStart;
+        this.rootSelfClosing = root.selfClosing;
+
+        for (const element of root.children) {
+            if (element.name === 'data') {
+                this.nodes.push(this.createNode(element.start, text.slice(element.start, element.end), rebase(element, element.start)));
+            }
+        }
+
+        const sample = root.children.find(e => e.name === 'data') ?? root.children[0];
+        this.indent = (sample && this.lineIndentAt(sample.start)) ?? '  ';
+        const sampleChild = sample?.children[0];
+        this.childIndent = (sampleChild && this.lineIndentAt(sampleChild.start)) ?? this.indent + this.indent;
+    }
+
+    public static parse(text: string): ResxFile {
+        return new ResxFile(text);
+    }
+
+    public toString(): string {
+        return this.text;
+    }
+
+    /** All entries in document order, including duplicate names. */
+    public get entries(): ResxEntry[] {
+        return this.nodes.map(n => n.entry);
+    }
+
+    public keys(): string[] {
+        return Array.from(new Set(this.nodes.map(n => n.entry.name)));
+    }
+
+    public has(name: string): boolean {
+        return this.findNode(name) !== undefined;
+    }
+
+    /** Returns the entry for `name`; like ResXResourceReader, the last duplicate wins. */
+    public get(name: string): ResxEntry | undefined {
+        return this.findNode(name)?.entry;
+    }
+
+    /** Offsets of `name`'s `<data>` node in the current text. */
+    public getRange(name: string): { start: number; end: number } | undefined {
+        const node = this.findNode(name);
+        return node && { start: node.start, end: node.end };
+    }
+
+    /** Offsets of every `<data>` node named `name`, in document order; more than one means duplicates. */
+    public getRanges(name: string): { start: number; end: number }[] {
+        return this.nodes.filter(n => n.entry.name === name).map(n => ({ start: n.start, end: n.end }));
+    }
+
+    /** Offsets of `name`'s value text, or of the whole node when it has no `<value>` element. */
+    public getValueRange(name: string): { start: number; end: number } | undefined {
+        const node = this.findNode(name);
+        if (!node) {
+            return undefined;
+        }
+        const value = getChild(node.element, 'value');
+        return value
+            ? { start: node.start + value.openEnd, end: node.start + value.closeStart }
+            : { start: node.start, end: node.end };
+    }
+
+    public setValue(name: string, value: string): boolean {
+        const node = this.findNode(name);
+        if (!node) {
+            return false;
+        }
+        if (node.entry.value === value) {
+            return false;
+        }
+
+        let raw = this.setChildText(node, 'value', value);
+        if (/^\s|\s$/.test(value) && getAttribute(node.element, 'xml:space') === undefined) {
+            const openTagEnd = this.openTagContentEnd(raw);
+            raw = `${raw.slice(0, openTagEnd)} xml:space="preserve"${raw.slice(openTagEnd)}`;
+        }
+        this.replaceNode(node, raw);
+        return true;
+    }
+
+    public setComment(name: string, comment: string): boolean {
+        const node = this.findNode(name);
+        if (!node) {
+            return false;
+        }
+        if ((node.entry.comment ?? '') === comment) {
+            return false;
+        }
+
+        if (comment) {
+            this.replaceNode(node, this.setChildText(node, 'comment', comment));
+        } else {
+            const element = getChild(node.element, 'comment')!;
+            const raw = this.text.slice(node.start, node.end);
+            const removeStart = this.leadingWhitespaceStart(raw, element.start);
+            this.replaceNode(node, raw.slice(0, removeStart) + raw.slice(element.end));
+        }
+        return true;
+    }
+
+    /** Appends a new `<data>` node after the last one. Returns false if `entry.name` already exists. */
+    public add(entry: ResxEntry): boolean {
+        if (this.has(entry.name)) {
+            return false;
+        }
+
+        const nl = this.newline;
+        let attributes = `name="${encodeAttribute(entry.name)}"`;
+        if (entry.type) {
+            attributes += ` type="${encodeAttribute(entry.type)}"`;
+        }
+        if (entry.mimetype) {
+            attributes += ` mimetype="${encodeAttribute(entry.mimetype)}"`;
+        }
+        if (!entry.mimetype) {
+            attributes += ' xml:space="preserve"';
+        }
+        let raw = `<data ${attributes}>${nl}${this.childIndent}<value>${encodeText(entry.value, nl)}</value>`;
+        if (entry.comment) {
+            raw += `${nl}${this.childIndent}<comment>${encodeText(entry.comment, nl)}</comment>`;
+        }
+        raw += `${nl}${this.indent}</data>`;
+
+        const last = this.nodes[this.nodes.length - 1];
+        if (last) {
+            const insertAt = last.end;
+            this.splice(insertAt, insertAt, `${nl}${this.indent}${raw}`);
+            this.nodes.push(this.createNode(insertAt + nl.length + this.indent.length, raw));
+            this.index = undefined;
+            return true;
+        }
+
+        if (this.rootSelfClosing) {
+            const selfClose = this.rootCloseStart - 2;
+            this.splice(selfClose, selfClose + 2, `>${nl}</root>`);
+            this.rootSelfClosing = false;
+            this.rootCloseStart = selfClose + 1 + nl.length;
+        }
+        const lineStart = this.text.lastIndexOf('\n', this.rootCloseStart - 1) + 1;
+        const onOwnLine = /^[ \t]*$/.test(this.text.slice(lineStart, this.rootCloseStart));
+        const insertAt = onOwnLine ? lineStart : this.rootCloseStart;
+        const prefix = onOwnLine ? this.indent : `${nl}${this.indent}`;
+        this.splice(insertAt, insertAt, `${prefix}${raw}${nl}`);
+        this.nodes.push(this.createNode(insertAt + prefix.length, raw));
+        this.index = undefined;
+        return true;
+    }
+
+    /** Removes every `<data>` node named `name` along with the whitespace that indented it. */
+    public remove(name: string): boolean {
+        const matches = this.nodes.filter(n => n.entry.name === name);
+        for (const node of matches.reverse()) {
+            const start = this.leadingWhitespaceStart(this.text, node.start);
+            this.nodes.splice(this.nodes.indexOf(node), 1);
+            this.splice(start, node.end, '');
+        }
+        this.index = undefined;
+        return matches.length > 0;
+    }
+
+    /** Removes every duplicate `<data>` node named `name` except the last, which is the one `get` returns. */
+    public removeDuplicates(name: string): boolean {
+        const earlier = this.nodes.filter(n => n.entry.name === name).slice(0, -1);
+        for (const node of earlier.reverse()) {
+            const start = this.leadingWhitespaceStart(this.text, node.start);
+            this.nodes.splice(this.nodes.indexOf(node), 1);
+            this.splice(start, node.end, '');
+        }
+        this.index = undefined;
+        return earlier.length > 0;
+    }
+
+    /**
+     * Reorders the `<data>` nodes by `compare` (stable, so equal entries keep their order). Each node's text moves
+     * into the slot of the node it replaces; whitespace, comments and other elements between the slots stay put.
+     */
+    public sort(compare: (a: ResxEntry, b: ResxEntry) => number): boolean {
+        const sorted = [...this.nodes].sort((a, b) => compare(a.entry, b.entry));
+        if (sorted.every((node, i) => node === this.nodes[i])) {
+            return false;
+        }
+
+        let text = '';
+        let last = 0;
+        this.nodes.forEach((slot, i) => {
+            text += this.text.slice(last, slot.start) + this.text.slice(sorted[i].start, sorted[i].end);
+            last = slot.end;
+        });
+        const reparsed = new ResxFile(text + this.text.slice(last));
+        this.text = reparsed.text;
+        this.nodes = reparsed.nodes;
+        this.rootCloseStart = reparsed.rootCloseStart;
+        this.index = undefined;
+        return true;
+    }
+
+    /**
+     * Rewrites the layout of the `<data>` nodes: each on its own line at the file's indentation with its `<value>`
+     * and `<comment>` on their own lines below it, and every line break converted to the file's line ending.
+     * Attribute order, element text and everything outside the `<data>` nodes are kept.
+     */
+    public normalize(): boolean {
+        let text = '';
+        let last = 0;
+        for (const node of this.nodes) {
+            let start = node.start;
+            while (start > last && /\s/.test(this.text[start - 1])) {
+                start--;
+            }
+            text += `${this.text.slice(last, start)}${this.newline}${this.indent}${this.formatNode(node)}`;
+            last = node.end;
+        }
+        const tail = this.text.slice(last);
+        const closeOffset = this.rootCloseStart - last;
+        text += this.nodes.length > 0 && closeOffset >= 0 && /^\s*$/.test(tail.slice(0, closeOffset))
+            ? this.newline + tail.slice(closeOffset)
+            : tail;
+        text = text.replace(/\r\n|\r|\n/g, this.newline);
+
+        if (text === this.text) {
+            return false;
+        }
+        const reparsed = new ResxFile(text);
+        this.text = reparsed.text;
+        this.nodes = reparsed.nodes;
+        this.rootCloseStart = reparsed.rootCloseStart;
+        this.index = undefined;
+        return true;
+    }
+
+    public rename(oldName: string, newName: string): boolean {
+        if (oldName === newName || this.has(newName)) {
+            return false;
+        }
+        const matches = this.nodes.filter(n => n.entry.name === oldName);
+        for (const node of matches) {
+            const attr = node.element.attributes.find(a => a.name === 'name')!;
+            const raw = this.text.slice(node.start, node.end);
+            this.replaceNode(node, raw.slice(0, attr.valueStart) + encodeAttribute(newName) + raw.slice(attr.valueEnd));
+        }
+        this.index = undefined;
+        return matches.length > 0;
+    }
+
+    private findNode(name: string): DataNode | undefined {
+        if (!this.index) {
+            this.index = new Map();
+            for (const node of this.nodes) {
+                this.index.set(node.entry.name, node);
+            }
+        }
+        return this.index.get(name);
+    }
+
+    private createNode(start: number, raw: string, element: XmlElement = parseXml(raw)[0]): DataNode {
+        const value = getChild(element, 'value');
+        const comment = getChild(element, 'comment');
+        const entry: ResxEntry = {
+            name: getAttribute(element, 'name') ?? '',
+            value: value ? decodeText(raw.slice(value.openEnd, value.closeStart)) : '',
+            comment: comment ? decodeText(raw.slice(comment.openEnd, comment.closeStart)) : '',
+        };
+        const type = getAttribute(element, 'type');
+        const mimetype = getAttribute(element, 'mimetype');
+        if (type !== undefined) {
+            entry.type = type;
+        }
+        if (mimetype !== undefined) {
+            entry.mimetype = mimetype;
+        }
+        return { start, end: start + raw.length, element, entry };
+    }
+
+    /** Returns the node's raw text with `childName`'s content replaced, inserting the child if needed. */
+    private setChildText(node: DataNode, childName: 'value' | 'comment', text: string): string {
+        const raw = this.text.slice(node.start, node.end);
+        const encoded = encodeText(text, this.newline);
+        const child = getChild(node.element, childName);
+
+        if (child && !child.selfClosing) {
+            return raw.slice(0, child.openEnd) + encoded + raw.slice(child.closeStart);
+        }
+        if (child) {
+            return `${raw.slice(0, child.start)}<${childName}>${encoded}</${childName}>${raw.slice(child.end)}`;
+        }
+
+        const element = `<${childName}>${encoded}</${childName}>`;
+        if (node.element.selfClosing) {
+            const openTag = raw.slice(0, this.openTagContentEnd(raw)).replace(/\s+$/, '');
+            return `${openTag}>${this.newline}${this.childIndent}${element}${this.newline}${this.indent}</data>`;
+        }
+        // A comment goes after the value; a value goes first.
+        const anchor = childName === 'comment' ? getChild(node.element, 'value')?.end ?? node.element.openEnd : node.element.openEnd;
+        return `${raw.slice(0, anchor)}${this.newline}${this.childIndent}${element}${raw.slice(anchor)}`;
+    }
+
+    /** The node's text with each child element on its own line; left alone when it holds text or XML comments. */
+    private formatNode(node: DataNode): string {
+        const raw = this.text.slice(node.start, node.end);
+        const { element } = node;
+        if (element.selfClosing || element.children.length === 0) {
+            return raw;
+        }
+        let between = raw.slice(element.openEnd, element.closeStart);
+        for (const child of [...element.children].reverse()) {
+            between = between.slice(0, child.start - element.openEnd) + between.slice(child.end - element.openEnd);
+        }
+        if (/\S/.test(between)) {
+            return raw;
+        }
+        const children = element.children.map(child => `${this.newline}${this.childIndent}${raw.slice(child.start, child.end)}`);
+        return `${raw.slice(0, element.openEnd)}${children.join('')}${this.newline}${this.indent}${raw.slice(element.closeStart)}`;
+    }
+
+    /** Offset in a raw `<data>` node where new attributes can be appended to its start tag. */
+    private openTagContentEnd(raw: string): number {
+        const element = parseXml(raw)[0];
+        const last = element.attributes[element.attributes.length - 1];
+        return last ? last.valueEnd + 1 : 1 + element.name.length;
+    }
+
+    private replaceNode(node: DataNode, raw: string): void {
+        const { start, end } = node;
+        const updated = this.createNode(start, raw);
+        node.element = updated.element;
+        node.entry = updated.entry;
+        node.end = updated.end;
+        this.splice(start, end, raw, node);
+    }
+
+    /** Replaces `text[start, end)` and shifts every position after it. */
+    private splice(start: number, end: number, replacement: string, except?: DataNode): void {
+        const delta = replacement.length - (end - start);
+        this.text = this.text.slice(0, start) + replacement + this.text.slice(end);
+        for (const node of this.nodes) {
+            if (node !== except && node.start >= end) {
+                node.start += delta;
+                node.end += delta;
+            }
+        }
+        if (this.rootCloseStart >= end) {
+            this.rootCloseStart += delta;
+        }
+    }
+
+    /** Start of the run of spaces/tabs (and the line break before them) that precede `offset`. */
+    private leadingWhitespaceStart(text: string, offset: number): number {
+        let start = offset;
+        while (start > 0 && (text[start - 1] === ' ' || text[start - 1] === '\t')) {
+            start--;
+        }
+        if (text[start - 1] === '\n') {
+            start--;
+            if (text[start - 1] === '\r') {
+                start--;
+            }
+        }
+        return start;
+    }
+
+    /** Indentation of the line `offset` is on, or undefined if something other than whitespace precedes it. */
+    private lineIndentAt(offset: number): string | undefined {
+        const lineStart = this.text.lastIndexOf('\n', offset - 1) + 1;
+        const prefix = this.text.slice(lineStart, offset);
+        return /^[ \t]*$/.test(prefix) ? prefix : undefined;
+    }
+}
@@ -0,0 +1,84 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ResxDocument, ResxFile } from './resxFile';
+import { isKnownCultureName, splitResxFileName } from './cultures';
+
+/** A culture file of a resx set on disk. */
+export interface CultureFile {
+    language: string;
+    path: string;
+}
+
+/** A neutral .resx file and its culture files, by path. */
+export interface ResxSetPaths {
+    basePath: string;
+    baseName: string;
+    cultures: Map<string, string>;
+}
+
+function escapeRegExp(input: string): string {
+    return input.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * The culture of `fileName` when it is `<baseFileName>.<culture>.resx` with a .NET culture name, e.g. fr,
+ * en-US, zh-Hans or zh-hans-cn. The original casing is kept so a save never writes a different file name.
+ */
+export function getCultureFromResxFileName(baseFileName: string, fileName: string): string | null {
+    const match = fileName.match(new RegExp(`^${escapeRegExp(baseFileName)}\\.([A-Za-z0-9]+(?:-[A-Za-z0-9]+)*)\\.resx$`, 'i'));
+    return match && isKnownCultureName(match[1]) ? match[1] : null;
+}
+
+/** Culture files next to the neutral file `basePath`, in directory order. */
+export function findCultureFiles(basePath: string): CultureFile[] {
+    const dir = path.dirname(basePath);
+    const baseFileName = path.basename(basePath, path.extname(basePath));
+    const cultures: CultureFile[] = [];
+
+    for (const file of fs.readdirSync(dir)) {
+        const language = getCultureFromResxFileName(baseFileName, file);
+        if (language) {
+            cultures.push({ language, path: path.join(dir, file) });
+        }
+    }
+
+    return cultures;
+}
+
+/** Reads the neutral file and every culture file from disk, keyed like the editor's model (`'default'` plus culture names). */
+export async function loadResxSet(basePath: string): Promise<ResxDocument> {
+    const resxData: ResxDocument = {
+        default: ResxFile.parse(await fs.promises.readFile(basePath, 'utf-8')),
+    };
+    for (const culture of findCultureFiles(basePath)) {
+        resxData[culture.language] = ResxFile.parse(await fs.promises.readFile(culture.path, 'utf-8'));
+    }
+    return resxData;
+}
+
+/**
+ * Groups .resx paths into sets by folder and base name, ignoring case like the file systems .NET targets. Culture
+ * files without a neutral file are dropped because they are not a set the editor can open. Sorted by path.
+ */
+export function groupResxSets(paths: string[]): ResxSetPaths[] {
+    const sets = new Map<string, ResxSetPaths>();
+    const cultureFiles: { key: string; culture: string; path: string }[] = [];
+
+    for (const filePath of paths) {
+        const parts = splitResxFileName(path.basename(filePath));
+        if (!parts) {
+            continue;
+        }
+        const key = path.join(path.dirname(filePath), parts.baseName).toLowerCase();
+        if (parts.culture) {
+            cultureFiles.push({ key, culture: parts.culture, path: filePath });
+        } else {
+            sets.set(key, { basePath: filePath, baseName: parts.baseName, cultures: new Map() });
+        }
+    }
+    for (const { key, culture, path: culturePath } of cultureFiles) {
+        sets.get(key)?.cultures.set(culture, culturePath);
+    }
+
+    return [...sets.values()].sort((a, b) => a.basePath.localeCompare(b.basePath));
+}
@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import { after, describe, it } from 'node:test';
+
+const CLI = path.join(__dirname, '..', 'cli.js');
+
+describe('resx-editor CLI', () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'resx-cli-'));
+    after(() => fs.rmSync(root, { recursive: true, force: true }));
+
+    /** A folder holding one set, given as file name to `name: value` pairs. */
+    const createSet = (files: Record<string, Record<string, string>>): string => {
+        const dir = fs.mkdtempSync(path.join(root, 'set-'));
+        for (const [file, entries] of Object.entries(files)) {
+            const data = Object.entries(entries).map(([name, value]) => `  <data name="${name}"><value>${value}</value></data>\n`);
+            fs.writeFileSync(path.join(dir, file), `<root>\n${data.join('')}</root>\n`);
+        }
+        return dir;
+    };
+    const run = (...args: string[]) => {
+        const result = spawnSync(process.execPath, [CLI, ...args], { encoding: 'utf-8' });
+        return { code: result.status, stdout: result.stdout, stderr: result.stderr };
+    };
+
+    it('lints missing translations, placeholders and keys with file and line', () => {
+        const dir = createSet({
+            'Messages.resx': { Hello: 'Hello {0}', Bye: 'Bye' },
+            'Messages.fr.resx': { Hello: 'Bonjour', Extra: 'x' },
+        });
+        const { code, stdout } = run('lint', '--json', dir);
+        assert.strictEqual(code, 1);
+        const result = JSON.parse(stdout);
+        assert.deepStrictEqual(result.files, [path.join(dir, 'Messages.resx')]);
+        const problems = result.problems.map((p: { key: string; kind: string; line?: number; file: string }) => [p.key, p.kind, p.line, path.basename(p.file)]);
+        assert.deepStrictEqual(problems, [
+            ['Bye', 'missingTranslation', undefined, 'Messages.fr.resx'],
+            ['Hello', 'placeholderMissing', 2, 'Messages.fr.resx'],
+            ['Extra', 'orphanKey', 3, 'Messages.fr.resx'],
+        ]);
+    });
+
+    it('passes lint within the warning budget', () => {
+        const dir = createSet({ 'Messages.resx': { A: 'a' }, 'Messages.fr.resx': { A: 'b', Orphan: 'o' } });
+        assert.strictEqual(run('lint', dir).code, 0);
+        assert.strictEqual(run('lint', '--max-warnings', '0', dir).code, 1);
+    });
+
+    it('reports completion and fails below the minimum', () => {
+        const dir = createSet({ 'Messages.resx': { A: 'a', B: 'b' }, 'Messages.de.resx': { A: 'x', B: 'b' } });
+        const { code, stdout } = run('report', '--json', '--min-completion', '50', path.join(dir, 'Messages.de.resx'));
+        assert.strictEqual(code, 0);
+        const [set] = JSON.parse(stdout).sets;
+        assert.deepStrictEqual(set.cultures.map((c: { language: string; percent: number; same: number }) => [c.language, c.percent, c.same]), [['de', 50, 1]]);
+        assert.strictEqual(run('report', '--min-completion', '51', dir).code, 1);
+    });
+
+    it('checks and sorts keys', () => {
+        const dir = createSet({ 'Messages.resx': { b: 'b', a: 'a' } });
+        const file = path.join(dir, 'Messages.resx');
+        assert.strictEqual(run('sort', '--check', dir).code, 1);
+        assert.strictEqual(run('sort', dir).code, 0);
+        assert.ok(fs.readFileSync(file, 'utf-8').indexOf('"a"') < fs.readFileSync(file, 'utf-8').indexOf('"b"'));
+        assert.strictEqual(run('sort', '--check', dir).code, 0);
+    });
+
+    it('exits with 2 for invalid arguments', () => {
+        assert.strictEqual(run().code, 2);
+        assert.strictEqual(run('fix', root).code, 2);
+        assert.strictEqual(run('lint').code, 2);
+        assert.match(run('report', '--min-completion', 'many', root).stderr, /--min-completion expects a non-negative number/);
+    });
+});
@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { findAllReferences, findLocalizerTypes, findReferenceAt, getLocalizerCompletionContext } from '../codeReferences';
+
+const isResourceClass = (className: string) => className === 'Messages';
+
+describe('codeReferences', () => {
+    const localizers = findLocalizerTypes([
+        'public HomeController(IStringLocalizer<Resources.Controllers.HomeController> localizer) {}',
+        '@inject IHtmlLocalizer<Messages> L',
+        'private readonly IStringLocalizer<global::App.Shared>? _shared;',
+    ].join('\n'));
+
+    it('maps localizer variables to their resource class', () => {
+        assert.deepStrictEqual([...localizers], [['localizer', 'HomeController'], ['L', 'Messages'], ['_shared', 'Shared']]);
+    });
+
+    it('finds generated class members only for resource classes', () => {
+        const line = 'var text = Resources.Messages.Welcome + Console.Title;';
+        assert.deepStrictEqual(findReferenceAt(line, line.indexOf('Welcome') + 2, localizers, isResourceClass),
+            { kind: 'member', className: 'Messages', key: 'Welcome', start: 30, end: 37 });
+        assert.strictEqual(findReferenceAt(line, line.indexOf('Title'), localizers, isResourceClass), undefined);
+    });
+
+    it('finds localizer indexers and ResourceManager lookups, unescaping the key', () => {
+        const indexer = '<p>@L["Say \\"hi\\""]</p>';
+        assert.deepStrictEqual(findReferenceAt(indexer, 8, localizers, isResourceClass),
+            { kind: 'localizer', className: 'Messages', key: 'Say "hi"', start: 7, end: 17 });
+        assert.deepStrictEqual(findReferenceAt('_otherLocalizer["Bye"]', 18, localizers, isResourceClass),
+            { kind: 'localizer', className: undefined, key: 'Bye', start: 17, end: 20 });
+        assert.strictEqual(findReferenceAt('settings["Bye"]', 11, localizers, isResourceClass), undefined);
+        assert.deepStrictEqual(findReferenceAt('rm.GetString("Bye", culture)', 15, localizers, isResourceClass),
+            { kind: 'resourceManager', key: 'Bye', start: 14, end: 17 });
+    });
+
+    it('completes keys inside an unterminated localizer string', () => {
+        assert.deepStrictEqual(getLocalizerCompletionContext('var t = L["Wel', localizers), { className: 'Messages', typed: 'Wel' });
+        assert.deepStrictEqual(getLocalizerCompletionContext('_stringLocalizer["', localizers), { className: undefined, typed: '' });
+        assert.strictEqual(getLocalizerCompletionContext('L["Done"]', localizers), undefined);
+        assert.strictEqual(getLocalizerCompletionContext('dict["Wel', localizers), undefined);
+    });
+
+    it('lists every reference in a file with its line', () => {
+        const text = [
+            'Title = Messages.Title;',
+            '<TextBlock Text="{x:Static res:Messages.Greeting}" />\r',
+            'L["Bye"] + Console.Out + manager.GetObject("Logo")',
+        ].join('\n');
+        assert.deepStrictEqual(findAllReferences(text, localizers, isResourceClass).map(r => [r.kind, r.className, r.key, r.line, r.start]), [
+            ['member', 'Messages', 'Title', 0, 17],
+            ['member', 'Messages', 'Greeting', 1, 40],
+            ['localizer', 'Messages', 'Bye', 2, 3],
+            ['resourceManager', undefined, 'Logo', 2, 44],
+        ]);
+    });
+});
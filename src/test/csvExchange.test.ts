@@ -0,0 +1,63 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { CsvFormatError, diffCsvTable, exportCsv, formatCsv, parseCsv, parseCsvTable } from '../csvExchange';
+import { createResx } from './fixtures';
+
+describe('parseCsv', () => {
+    it('reads quoted fields with delimiters, quotes and line breaks', () => {
+        assert.deepStrictEqual(parseCsv('key,value\r\na,"x, ""y""\r\nz"\r\n\r\n'), [['key', 'value'], ['a', 'x, "y"\nz']]);
+    });
+
+    it('detects semicolon and tab delimiters and skips a BOM', () => {
+        assert.deepStrictEqual(parseCsv('﻿key;value\na;1,5\n'), [['key', 'value'], ['a', '1,5']]);
+        assert.deepStrictEqual(parseCsv('key\tvalue\na\tb'), [['key', 'value'], ['a', 'b']]);
+    });
+
+    it('rejects an unterminated quoted field', () => {
+        assert.throws(() => parseCsv('key\n"open'), CsvFormatError);
+    });
+
+    it('reads back what formatCsv writes', () => {
+        const records = [['key', 'value'], ['a', ' padded '], ['b', 'semi;colon'], ['c', 'multi\nline']];
+        assert.deepStrictEqual(parseCsv(formatCsv(records)), records);
+    });
+});
+
+describe('CSV import', () => {
+    const resxData = {
+        default: createResx([
+            { name: 'Hello', value: 'Hello', comment: 'greeting' },
+            { name: 'Bye', value: 'Bye' },
+            { name: 'Logo', value: 'logo.png;System.Drawing.Bitmap', type: 'System.Resources.ResXFileRef, System.Windows.Forms' },
+        ]),
+        fr: createResx({ Hello: 'Bonjour' }),
+    };
+
+    it('exports string resources only', () => {
+        assert.strictEqual(exportCsv(resxData, ['default', 'fr']), 'key,comment,default,fr\r\nHello,greeting,Hello,Bonjour\r\nBye,,Bye,\r\n');
+    });
+
+    it('matches culture columns case-insensitively and keeps the last duplicate row', () => {
+        const table = parseCsvTable('Key,FR,Unknown\nHello,Salut,x\nHello,Coucou,y\n', ['default', 'fr']);
+        assert.deepStrictEqual(table, { languages: ['fr'], hasComment: false, rows: [{ key: 'Hello', comment: undefined, values: { fr: 'Coucou' } }] });
+    });
+
+    it('requires a key column', () => {
+        assert.throws(() => parseCsvTable('name,fr\nHello,Salut\n', ['fr']), /Missing "key" column/);
+    });
+
+    it('round-trips an export without changes', () => {
+        const table = parseCsvTable(exportCsv(resxData, ['default', 'fr']), ['default', 'fr']);
+        assert.deepStrictEqual(diffCsvTable(resxData, table, ['default', 'fr'], true), []);
+    });
+
+    it('lists added, changed and removed values, never clearing a value from an empty cell', () => {
+        const table = parseCsvTable('key,comment,fr\nHello,hi,Salut\nNew,,Nouveau\nLogo,,x\n', ['default', 'fr']);
+        assert.deepStrictEqual(diffCsvTable(resxData, table, ['fr'], true), [
+            { kind: 'changed', key: 'Hello', language: 'fr', before: 'Bonjour', after: 'Salut' },
+            { kind: 'changed', key: 'Hello', language: 'comment', before: 'greeting', after: 'hi' },
+            { kind: 'added', key: 'New', language: 'fr', after: 'Nouveau' },
+            { kind: 'removed', key: 'Bye' },
+        ]);
+    });
+});
@@ -0,0 +1,27 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { getCultureDisplayName, isKnownCultureName, listCultureNames, splitResxFileName } from '../cultures';
+
+describe('cultures', () => {
+    it('recognizes neutral, specific, script and variant cultures', () => {
+        for (const name of ['fr', 'fr-CA', 'zh-Hans', 'sr-Cyrl-RS', 'ca-ES-valencia', 'qps-ploc']) {
+            assert.strictEqual(isKnownCultureName(name), true, name);
+        }
+        for (const name of ['Designer', 'Old', 'fr-XX', 'en-US-x']) {
+            assert.strictEqual(isKnownCultureName(name), false, name);
+        }
+    });
+
+    it('splits culture files from neutral ones', () => {
+        assert.deepStrictEqual(splitResxFileName('Messages.fr-CA.resx'), { baseName: 'Messages', culture: 'fr-CA' });
+        assert.deepStrictEqual(splitResxFileName('Form1.Designer.resx'), { baseName: 'Form1.Designer' });
+        assert.deepStrictEqual(splitResxFileName('Messages.resx'), { baseName: 'Messages' });
+        assert.strictEqual(splitResxFileName('Messages.txt'), undefined);
+    });
+
+    it('names cultures in the display locale', () => {
+        assert.strictEqual(getCultureDisplayName('de', 'en'), 'German');
+        assert.strictEqual(getCultureDisplayName('qps-ploc', 'en'), getCultureDisplayName('QPS-PLOC', 'de'));
+        assert.ok(listCultureNames().includes('zh-Hans'));
+    });
+});
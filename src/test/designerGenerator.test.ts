@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { DesignerSettings, generateDesignerCode, toIdentifier } from '../designerGenerator';
+import { createResx } from './fixtures';
+
+const settings: DesignerSettings = {
+    designerPath: 'Messages.Designer.cs',
+    className: 'Messages',
+    namespace: 'App.Properties',
+    resourceName: 'App.Properties.Messages',
+    access: 'internal',
+};
+
+describe('designerGenerator', () => {
+    it('turns names into C# identifiers', () => {
+        assert.strictEqual(toIdentifier('Save As...'), 'Save_As___');
+        assert.strictEqual(toIdentifier('1st'), '_1st');
+        assert.strictEqual(toIdentifier('class'), '_class');
+        assert.strictEqual(toIdentifier('Größe'), 'Größe');
+    });
+
+    it('generates sorted accessors and skips reserved and colliding names', () => {
+        const code = generateDesignerCode(createResx([
+            { name: 'b key', value: 'B' },
+            { name: 'A', value: 'A' },
+            { name: 'b_key', value: 'collides with "b key"' },
+            { name: 'Culture', value: 'reserved' },
+            { name: 'Logo', value: 'logo.png;System.Drawing.Bitmap, System.Drawing', type: 'System.Resources.ResXFileRef, System.Windows.Forms' },
+        ]), settings, '\n');
+        const properties = [...code.matchAll(/internal static (\S+) (\w+) \{/g)].map(m => `${m[1]} ${m[2]}`);
+        assert.deepStrictEqual(properties, [
+            'global::System.Resources.ResourceManager ResourceManager',
+            'global::System.Globalization.CultureInfo Culture',
+            'string A',
+            'string b_key',
+            'System.Drawing.Bitmap Logo',
+        ]);
+        assert.ok(code.includes('return ResourceManager.GetString("b key", resourceCulture);'));
+        assert.ok(code.includes('namespace App.Properties {'));
+    });
+
+    it('uses one line ending throughout, including multi-line summaries', () => {
+        const code = generateDesignerCode(createResx({ Text: 'Line 1\nLine 2 <b>' }), settings, '\r\n');
+        assert.strictEqual(code.replace(/\r\n/g, '').includes('\n'), false);
+        assert.ok(code.includes('///   Looks up a localized string similar to Line 1\r\n        ///Line 2 &lt;b&gt;.'));
+    });
+});
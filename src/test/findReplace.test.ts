@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { createFindPattern, findReplacements } from '../findReplace';
+import { createResx } from './fixtures';
+
+const options = { find: '', replace: '', regex: false, matchCase: false };
+
+describe('findReplace', () => {
+    const resxData = {
+        default: createResx([{ name: 'Save', value: 'Save file' }, { name: 'Size', value: 'save', type: 'System.Drawing.Size' }]),
+        fr: createResx({ Save: 'Enregistrer (save)' }),
+    };
+
+    it('replaces literal text case-insensitively and skips non-string resources', () => {
+        assert.deepStrictEqual(findReplacements(resxData, { ...options, find: 'save', replace: '$1 store' }), [
+            { key: 'Save', language: 'default', before: 'Save file', after: '$1 store file', matches: 1 },
+            { key: 'Save', language: 'fr', before: 'Enregistrer (save)', after: 'Enregistrer ($1 store)', matches: 1 },
+        ]);
+    });
+
+    it('supports capture groups and limits to cultures and keys', () => {
+        const replacements = findReplacements(resxData, { ...options, find: '(\\w+) file', replace: '$1 document', regex: true, matchCase: true, languages: ['default'], keys: ['Save'] });
+        assert.deepStrictEqual(replacements.map(r => r.after), ['Save document']);
+    });
+
+    it('accepts identity escapes that are invalid in unicode mode', () => {
+        assert.ok(createFindPattern({ ...options, find: '\\-\\_', regex: true }).test('-_'));
+        assert.throws(() => createFindPattern({ ...options, find: '(', regex: true }), SyntaxError);
+    });
+
+    it('applies empty matches such as a prefix or suffix', () => {
+        const replacements = findReplacements(resxData, { ...options, find: '$', replace: '!', regex: true, languages: ['default'] });
+        assert.deepStrictEqual(replacements, [{ key: 'Save', language: 'default', before: 'Save file', after: 'Save file!', matches: 1 }]);
+        const prefixed = findReplacements(resxData, { ...options, find: '^|(?=r)', replace: '*', regex: true, languages: ['fr'] });
+        assert.deepStrictEqual(prefixed.map(r => [r.after, r.matches]), [['*En*regist*re*r (save)', 4]]);
+    });
+
+    it('finds nothing for an empty query', () => {
+        assert.deepStrictEqual(findReplacements(resxData, options), []);
+    });
+});
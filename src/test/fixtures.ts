@@ -0,0 +1,11 @@
+import { ResxEntry, ResxFile } from '../resxFile';
+
+/** A resx file holding `entries`, given as `name: value` pairs or full entries. */
+export function createResx(entries: Record<string, string> | ResxEntry[]): ResxFile {
+    const file = ResxFile.parse('<root>\n</root>\n');
+    const list = Array.isArray(entries) ? entries : Object.entries(entries).map(([name, value]) => ({ name, value }));
+    for (const entry of list) {
+        file.add(entry);
+    }
+    return file;
+}
@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { checkKeyConsistency } from '../keyConsistency';
+import { ResxFile } from '../resxFile';
+import { createResx } from './fixtures';
+
+describe('checkKeyConsistency', () => {
+    it('reports keys defined more than once in a file', () => {
+        const resxData = {
+            default: ResxFile.parse([
+                '<root>',
+                '  <data name="Save"><value>Save</value></data>',
+                '  <data name="Save"><value>Store</value></data>',
+                '</root>',
+            ].join('\n')),
+        };
+        assert.deepStrictEqual(checkKeyConsistency(resxData).map(i => [i.key, i.kind, i.severity, i.fixes]), [
+            ['Save', 'duplicateKey', 'warning', ['removeDuplicates']],
+        ]);
+    });
+
+    it('reports names that differ only in case within one file as errors', () => {
+        const resxData = {
+            default: createResx({ Title: 'Title', title: 'title' }),
+            fr: createResx({ Title: 'Titre', TITLE: 'TITRE' }),
+        };
+        assert.deepStrictEqual(checkKeyConsistency(resxData).map(i => [i.key, i.language, i.severity, i.other, i.fixes]), [
+            ['title', 'default', 'error', 'Title', ['deleteKey']],
+            ['TITLE', 'fr', 'error', 'Title', ['deleteFromCulture']],
+        ]);
+    });
+
+    it('reports culture keys the default file lacks or spells differently', () => {
+        const resxData = {
+            default: createResx({ Title: 'Title' }),
+            fr: createResx({ Title: 'Titre', Legacy: 'Ancien' }),
+            de: createResx({ title: 'Titel' }),
+        };
+        assert.deepStrictEqual(checkKeyConsistency(resxData).map(i => [i.key, i.language, i.kind, i.other, i.fixes]), [
+            ['Legacy', 'fr', 'orphanKey', undefined, ['addToDefault', 'deleteFromCulture']],
+            ['title', 'de', 'caseCollision', 'Title', ['renameToMatch', 'deleteFromCulture']],
+        ]);
+    });
+
+    it('finds nothing in a consistent set', () => {
+        assert.deepStrictEqual(checkKeyConsistency({ default: createResx({ A: 'a' }), fr: createResx({ A: 'b' }) }), []);
+    });
+});
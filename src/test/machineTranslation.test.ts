@@ -0,0 +1,28 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { DictionaryTranslationProvider, TranslationError, TranslationProvider, protectText, restoreText, translateTexts } from '../machineTranslation';
+
+describe('machineTranslation', () => {
+    it('protects placeholders, tags and entities with reusable markers', () => {
+        const { text, tokens } = protectText('<b>{0}</b> &amp; {0:N2}, {0}');
+        assert.strictEqual(text, '⟦0⟧⟦1⟧⟦2⟧ ⟦3⟧ ⟦4⟧, ⟦1⟧');
+        assert.strictEqual(restoreText('⟦ 1 ⟧ ⟦0⟧⟦2⟧⟦3⟧⟦4⟧', tokens), '{0} <b></b>&amp;{0:N2}');
+    });
+
+    it('rejects translations that lost or invented a marker', () => {
+        const { tokens } = protectText('{0} and {1}');
+        assert.strictEqual(restoreText('⟦0⟧ und', tokens), undefined);
+        assert.strictEqual(restoreText('⟦0⟧ und ⟦1⟧ ⟦2⟧', tokens), undefined);
+    });
+
+    it('translates from a dictionary, falling back to the parent culture', async () => {
+        const provider = DictionaryTranslationProvider.parse(JSON.stringify({ fr: { 'Save {0}': 'Enregistrer {0}' } }));
+        assert.deepStrictEqual(await translateTexts(provider, ['Save {0}', 'Open'], 'en', 'fr-CA'), ['Enregistrer {0}', undefined]);
+        assert.throws(() => DictionaryTranslationProvider.parse('[]'), TranslationError);
+    });
+
+    it('drops translations whose placeholders did not survive', async () => {
+        const provider: TranslationProvider = { translate: async texts => texts.map(text => text.replace(/⟦\d+⟧/, '')) };
+        assert.deepStrictEqual(await translateTexts(provider, ['Hello {0}', 'Plain'], 'en', 'de'), [undefined, 'Plain']);
+    });
+});
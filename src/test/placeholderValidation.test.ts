@@ -0,0 +1,38 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { parseFormatString, validateResxDocument } from '../placeholderValidation';
+import { createResx } from './fixtures';
+
+describe('parseFormatString', () => {
+    it('collects placeholder indexes with alignment and format', () => {
+        assert.deepStrictEqual(parseFormatString('{1:N2} of {0,-5} and {1}'), { indexes: [1, 0], balanced: true });
+    });
+
+    it('accepts escaped braces and flags stray ones', () => {
+        assert.deepStrictEqual(parseFormatString('{{literal}} {0}'), { indexes: [0], balanced: true });
+        assert.strictEqual(parseFormatString('{0} }').balanced, false);
+        assert.strictEqual(parseFormatString('{name}').balanced, false);
+    });
+});
+
+describe('validateResxDocument', () => {
+    it('reports missing and extra placeholders, braces and whitespace', () => {
+        const issues = validateResxDocument({
+            default: createResx({ Count: '{0} of {1}', Label: 'Name: ', Plain: 'Use { and }' }),
+            fr: createResx({ Count: '{0} sur {2', Label: 'Nom :', Plain: 'Utiliser {' }),
+        });
+        assert.deepStrictEqual(issues.map(i => [i.key, i.kind, i.severity]), [
+            ['Count', 'braceMismatch', 'error'],
+            ['Count', 'placeholderMissing', 'warning'],
+            ['Label', 'whitespaceMismatch', 'warning'],
+        ]);
+    });
+
+    it('skips empty and non-string values', () => {
+        const issues = validateResxDocument({
+            default: createResx([{ name: 'Size', value: ' {0}', type: 'System.String' }, { name: 'Width', value: '{0}', type: 'System.Int32' }]),
+            fr: createResx([{ name: 'Size', value: '' }, { name: 'Width', value: '1', type: 'System.Int32' }]),
+        });
+        assert.deepStrictEqual(issues, []);
+    });
+});
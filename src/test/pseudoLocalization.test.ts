@@ -0,0 +1,31 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { createPseudoLocaleFile, pseudoLocalize, syncPseudoLocaleFile } from '../pseudoLocalization';
+import { createResx } from './fixtures';
+
+const options = { expansion: 30, brackets: true };
+
+describe('pseudoLocalization', () => {
+    it('accents letters, pads and brackets while keeping placeholders, tags and outer whitespace', () => {
+        assert.strictEqual(pseudoLocalize('Save {0}', options), '[Šåṽé {0} ··]');
+        assert.strictEqual(pseudoLocalize(' <b>Hi</b>\n', { expansion: 0, brackets: false }), ' <b>Ĥî</b>\n');
+        assert.strictEqual(pseudoLocalize('   ', options), '   ');
+    });
+
+    it('keeps the pseudo-locale file in step with the default file', () => {
+        const defaultFile = createResx([
+            { name: 'Save', value: 'Save', comment: 'button' },
+            { name: 'Width', value: '10', type: 'System.Int32' },
+        ]);
+        const pseudo = createPseudoLocaleFile(defaultFile, options);
+        // Comments are cleared and non-string resources left to fall back to the default file.
+        assert.deepStrictEqual(pseudo.entries.map(e => [e.name, e.value, e.comment]), [['Save', '[Šåṽé ··]', '']]);
+
+        defaultFile.remove('Save');
+        defaultFile.add({ name: 'Open', value: 'Open' });
+        assert.strictEqual(syncPseudoLocaleFile(pseudo, defaultFile, options), true);
+        assert.deepStrictEqual(pseudo.keys(), ['Open']);
+        assert.strictEqual(pseudo.get('Open')?.value, '[Öþéñ ··]');
+        assert.strictEqual(syncPseudoLocaleFile(pseudo, defaultFile, options), false);
+    });
+});
@@ -0,0 +1,33 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { isValidCSharpIdentifier, validateResourceKey } from '../resourceKeys';
+
+describe('resourceKeys', () => {
+    const existing = { default: ['Save', 'Open'], fr: ['Save', 'Legacy'] };
+
+    it('accepts C# identifiers and escaped keywords only', () => {
+        for (const name of ['Save', '_private', 'Größe', '@class']) {
+            assert.strictEqual(isValidCSharpIdentifier(name), true, name);
+        }
+        for (const name of ['class', '1st', 'Save As', 'Save.Title', '']) {
+            assert.strictEqual(isValidCSharpIdentifier(name), false, name);
+        }
+    });
+
+    it('rejects empty keys and keys taken in any culture, ignoring case', () => {
+        assert.deepStrictEqual(validateResourceKey('  ', existing, false), { kind: 'empty' });
+        assert.deepStrictEqual(validateResourceKey('save', existing, false), { kind: 'exists', existing: 'Save', languages: ['default', 'fr'] });
+        assert.deepStrictEqual(validateResourceKey('Legacy', existing, false), { kind: 'exists', existing: 'Legacy', languages: ['fr'] });
+        assert.strictEqual(validateResourceKey('Close', existing, false), null);
+    });
+
+    it('lets a rename change only the casing of the key', () => {
+        assert.strictEqual(validateResourceKey('SAVE', existing, false, 'Save'), null);
+        assert.deepStrictEqual(validateResourceKey('open', existing, false, 'Save'), { kind: 'exists', existing: 'Open', languages: ['default'] });
+    });
+
+    it('requires an identifier only when strongly typed resources are generated', () => {
+        assert.strictEqual(validateResourceKey('Save As', existing, false), null);
+        assert.deepStrictEqual(validateResourceKey('Save As', existing, true), { kind: 'notIdentifier' });
+    });
+});
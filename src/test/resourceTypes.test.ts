@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import {
+    checkResourceValue,
+    createFileRefEntry,
+    decodeBase64Value,
+    describeResource,
+    formatByteSize,
+    getImageMimeType,
+    parseFileRef,
+} from '../resourceTypes';
+
+const FILE_REF = 'System.Resources.ResXFileRef, System.Windows.Forms';
+const BASE64 = 'application/x-microsoft.net.object.bytearray.base64';
+
+describe('resourceTypes', () => {
+    it('describes each kind of resource', () => {
+        assert.deepStrictEqual(describeResource({ name: 'a', value: 'x' }), { kind: 'string', typeName: 'String', editable: true });
+        assert.deepStrictEqual(
+            describeResource({ name: 'a', value: 'Resources\\logo.png;System.Drawing.Bitmap, System.Drawing', type: FILE_REF }),
+            { kind: 'fileRef', typeName: 'Bitmap', editable: false }
+        );
+        assert.deepStrictEqual(
+            describeResource({ name: 'a', value: 'iVBO', type: 'System.Drawing.Icon, System.Drawing', mimetype: BASE64 }),
+            { kind: 'image', typeName: 'Icon', editable: false }
+        );
+        assert.deepStrictEqual(describeResource({ name: 'a', value: 'AAEA', mimetype: 'application/x-microsoft.net.object.binary.base64' }), { kind: 'binary', typeName: 'Object', editable: false });
+        assert.deepStrictEqual(describeResource({ name: 'a', value: '1', type: 'System.Int32, mscorlib' }), { kind: 'typed', typeName: 'Int32', editable: true });
+        assert.deepStrictEqual(describeResource({ name: 'a', value: 'x', type: 'My.Custom, App' }), { kind: 'typed', typeName: 'Custom', editable: false });
+    });
+
+    it('checks typed values against their text format', () => {
+        const size = { name: 'a', value: '1, 2', type: 'System.Drawing.Size, System.Drawing' };
+        assert.strictEqual(checkResourceValue(size, '10,20'), undefined);
+        assert.strictEqual(checkResourceValue(size, '10'), 'invalid');
+        assert.strictEqual(checkResourceValue({ name: 'a', value: 'true', type: 'System.Boolean' }, 'False'), undefined);
+        assert.strictEqual(checkResourceValue({ name: 'a', value: '1.5', type: 'System.Double' }, '-2e3'), undefined);
+        assert.strictEqual(checkResourceValue({ name: 'a', value: 'x', type: FILE_REF }, 'y'), 'readOnly');
+        assert.strictEqual(checkResourceValue({ name: 'a', value: 'x' }, 'anything'), undefined);
+    });
+
+    it('parses file references', () => {
+        assert.deepStrictEqual(parseFileRef('a.txt;System.String, mscorlib;utf-8'), { path: 'a.txt', type: 'System.String, mscorlib', encoding: 'utf-8' });
+        assert.strictEqual(parseFileRef('a.txt'), undefined);
+    });
+
+    it('creates file references typed by extension', () => {
+        assert.ok(createFileRefEntry('Logo', 'images/logo.PNG').value.startsWith('images\\logo.PNG;System.Drawing.Bitmap,'));
+        assert.ok(createFileRefEntry('App', 'app.ico').value.startsWith('app.ico;System.Drawing.Icon,'));
+        assert.ok(createFileRefEntry('Readme', 'readme.txt').value.endsWith(';utf-8'));
+        assert.deepStrictEqual(describeResource(createFileRefEntry('Data', 'data.bin')), { kind: 'fileRef', typeName: 'Byte[]', editable: false });
+    });
+
+    it('decodes wrapped base64 and recognizes image signatures', () => {
+        const bytes = decodeBase64Value('\n        iVBORw0K\n        GgoA\n    ');
+        assert.strictEqual(getImageMimeType(bytes), 'image/png');
+        assert.strictEqual(getImageMimeType(Buffer.from([0xff, 0xd8, 0xff, 0xe0])), 'image/jpeg');
+        assert.strictEqual(getImageMimeType(Buffer.from('text')), undefined);
+    });
+
+    it('formats byte sizes', () => {
+        assert.strictEqual(formatByteSize(512), '512 B');
+        assert.strictEqual(formatByteSize(4300), '4.2 KB');
+        assert.strictEqual(formatByteSize(3 * 1024 * 1024), '3.0 MB');
+    });
+});
@@ -0,0 +1,32 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { diffResxDocuments } from '../resxDiff';
+import { createResx } from './fixtures';
+
+describe('diffResxDocuments', () => {
+    it('classifies added, removed and changed cells', () => {
+        const committed = {
+            default: createResx([{ name: 'A', value: 'a' }, { name: 'B', value: 'b' }, { name: 'Gone', value: 'g' }]),
+            fr: createResx({ A: 'fa', Gone: 'fg' }),
+            de: createResx({ A: 'da' }),
+        };
+        const current = {
+            default: createResx([{ name: 'A', value: 'a' }, { name: 'B', value: 'b', comment: 'new comment' }, { name: 'New', value: 'n' }]),
+            fr: createResx({ A: 'fa2' }),
+            es: createResx({ A: 'ea' }),
+        };
+        const diff = diffResxDocuments(committed, current);
+        assert.deepStrictEqual([...diff.cells.get('default')!], [
+            ['B', { kind: 'changed', previous: { value: 'b', comment: '' } }],
+            ['New', { kind: 'added' }],
+            ['Gone', { kind: 'removed', previous: { value: 'g', comment: '' } }],
+        ]);
+        assert.deepStrictEqual([...diff.cells.get('fr')!], [
+            ['A', { kind: 'changed', previous: { value: 'fa', comment: '' } }],
+            ['Gone', { kind: 'removed', previous: { value: 'fg', comment: '' } }],
+        ]);
+        assert.deepStrictEqual([...diff.cells.get('es')!], [['A', { kind: 'added' }]]);
+        assert.strictEqual(diff.cells.has('de'), false);
+        assert.deepStrictEqual(diff.removedKeys, ['Gone']);
+    });
+});
@@ -0,0 +1,102 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { ResxFile, compareResourceNames, isStringEntry } from '../resxFile';
+
+const RESX = [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<root>',
+    '  <!-- Designer comment -->',
+    '  <xsd:schema id="root" xmlns="" xmlns:xsd="http://www.w3.org/2001/XMLSchema" />',
+    '  <resheader name="resmimetype">',
+    '    <value>text/microsoft-resx</value>',
+    '  </resheader>',
+    '  <assembly alias="System.Drawing" name="System.Drawing, Version=4.0.0.0" />',
+    '  <data name="Greeting" xml:space="preserve">',
+    '    <value>Hello, {0} &amp; &lt;friends&gt;</value>',
+    '    <comment>Shown on the start page</comment>',
+    '  </data>',
+    '  <data xml:space="preserve" name="Farewell">',
+    '    <value>Bye</value>',
+    '  </data>',
+    '  <data name="Size" type="System.Drawing.Size, System.Drawing">',
+    '    <value>10, 20</value>',
+    '  </data>',
+    '</root>',
+    '',
+].join('\r\n');
+
+describe('ResxFile', () => {
+    it('round-trips a file byte for byte', () => {
+        assert.strictEqual(ResxFile.parse(RESX).toString(), RESX);
+    });
+
+    it('reads values, comments and types', () => {
+        const file = ResxFile.parse(RESX);
+        assert.deepStrictEqual(file.keys(), ['Greeting', 'Farewell', 'Size']);
+        assert.strictEqual(file.get('Greeting')?.value, 'Hello, {0} & <friends>');
+        assert.strictEqual(file.get('Greeting')?.comment, 'Shown on the start page');
+        assert.strictEqual(file.get('Size')?.type, 'System.Drawing.Size, System.Drawing');
+        assert.strictEqual(isStringEntry(file.get('Greeting')!), true);
+        assert.strictEqual(isStringEntry(file.get('Size')!), false);
+    });
+
+    it('rewrites only the edited node', () => {
+        const file = ResxFile.parse(RESX);
+        assert.strictEqual(file.setValue('Farewell', 'See you <soon>'), true);
+        assert.strictEqual(file.toString(), RESX.replace('<value>Bye</value>', '<value>See you &lt;soon&gt;</value>'));
+        assert.strictEqual(file.setValue('Farewell', 'See you <soon>'), false);
+        assert.strictEqual(file.setValue('Missing', 'x'), false);
+    });
+
+    it('adds, comments and removes nodes with the file\'s newline and indentation', () => {
+        const file = ResxFile.parse(RESX);
+        assert.strictEqual(file.add({ name: 'New', value: 'Line 1\nLine 2', comment: 'note' }), true);
+        assert.strictEqual(file.add({ name: 'New', value: 'again' }), false);
+        assert.ok(file.toString().includes([
+            '  <data name="New" xml:space="preserve">',
+            '    <value>Line 1\r\nLine 2</value>',
+            '    <comment>note</comment>',
+            '  </data>',
+            '</root>',
+        ].join('\r\n')));
+        assert.strictEqual(ResxFile.parse(file.toString()).get('New')?.value, 'Line 1\nLine 2');
+
+        assert.strictEqual(file.setComment('New', ''), true);
+        assert.strictEqual(file.remove('New'), true);
+        assert.strictEqual(file.toString(), RESX);
+    });
+
+    it('renames every node of a key and refuses existing names', () => {
+        const file = ResxFile.parse(RESX);
+        assert.strictEqual(file.rename('Farewell', 'Greeting'), false);
+        assert.strictEqual(file.rename('Farewell', 'Goodbye'), true);
+        assert.deepStrictEqual(file.keys(), ['Greeting', 'Goodbye', 'Size']);
+        assert.ok(file.toString().includes('<data xml:space="preserve" name="Goodbye">'));
+    });
+
+    it('returns the last duplicate and removes the earlier ones', () => {
+        const file = ResxFile.parse('<root>\n  <data name="A"><value>1</value></data>\n  <data name="A"><value>2</value></data>\n</root>');
+        assert.strictEqual(file.get('A')?.value, '2');
+        assert.strictEqual(file.getRanges('A').length, 2);
+        assert.strictEqual(file.removeDuplicates('A'), true);
+        assert.strictEqual(file.toString(), '<root>\n  <data name="A"><value>2</value></data>\n</root>');
+    });
+
+    it('sorts nodes into the existing slots', () => {
+        const file = ResxFile.parse(RESX);
+        assert.strictEqual(file.sort((a, b) => compareResourceNames(a.name, b.name)), true);
+        assert.deepStrictEqual(file.keys(), ['Farewell', 'Greeting', 'Size']);
+        assert.strictEqual(file.sort((a, b) => compareResourceNames(a.name, b.name)), false);
+        assert.ok(file.toString().startsWith(RESX.slice(0, RESX.indexOf('  <data'))));
+    });
+
+    it('adds to an empty, self-closing root', () => {
+        const file = ResxFile.parse('<root />');
+        file.add({ name: 'A', value: 'x' });
+        assert.strictEqual(ResxFile.parse(file.toString()).get('A')?.value, 'x');
+    });
+
+    it('rejects text without a root element', () => {
+        assert.throws(() => ResxFile.parse('<resources />'), /missing <root>/);
+    });
+});
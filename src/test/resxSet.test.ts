@@ -0,0 +1,63 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { after, describe, it } from 'node:test';
+import { findCultureFiles, getCultureFromResxFileName, groupResxSets, loadResxSet } from '../resxSet';
+
+describe('resxSet', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'resx-set-'));
+    after(() => fs.rmSync(dir, { recursive: true, force: true }));
+    const write = (name: string, value: string) =>
+        fs.writeFileSync(path.join(dir, name), `<root>\n  <data name="Save"><value>${value}</value></data>\n</root>\n`);
+    write('Messages.resx', 'Save');
+    write('Messages.fr.resx', 'Enregistrer');
+    write('Messages.zh-hans.resx', '保存');
+    write('Messages.Designer.resx', 'x');
+    write('Messages.Old.fr.resx', 'x');
+    write('Other.de.resx', 'Speichern');
+
+    it('reads the culture of <base>.<culture>.resx file names', () => {
+        assert.strictEqual(getCultureFromResxFileName('Messages', 'Messages.zh-Hans-CN.resx'), 'zh-Hans-CN');
+        assert.strictEqual(getCultureFromResxFileName('Messages', 'messages.FR.resx'), 'FR');
+        assert.strictEqual(getCultureFromResxFileName('Messages', 'Messages.Designer.resx'), null);
+        assert.strictEqual(getCultureFromResxFileName('Messages', 'Messages.resx'), null);
+        assert.strictEqual(getCultureFromResxFileName('Messages.Old', 'Messages.Old.fr.resx'), 'fr');
+        assert.strictEqual(getCultureFromResxFileName('Messages', 'Messages.Old.fr.resx'), null);
+    });
+
+    it('finds the culture files next to a neutral file', () => {
+        const cultures = findCultureFiles(path.join(dir, 'Messages.resx')).sort((a, b) => a.language.localeCompare(b.language));
+        assert.deepStrictEqual(cultures, [
+            { language: 'fr', path: path.join(dir, 'Messages.fr.resx') },
+            { language: 'zh-hans', path: path.join(dir, 'Messages.zh-hans.resx') },
+        ]);
+    });
+
+    it('loads a set keyed like the editor model', async () => {
+        const resxData = await loadResxSet(path.join(dir, 'Messages.resx'));
+        assert.deepStrictEqual(Object.keys(resxData).sort(), ['default', 'fr', 'zh-hans']);
+        assert.strictEqual(resxData['zh-hans'].get('Save')?.value, '保存');
+    });
+
+    it('groups workspace paths into sets by folder and base name', () => {
+        const sets = groupResxSets([
+            path.join('app', 'Resources', 'Messages.fr.resx'),
+            path.join('app', 'Resources', 'Messages.resx'),
+            path.join('app', 'resources', 'messages.de.resx'),
+            path.join('app', 'Resources', 'Form1.Designer.resx'),
+            path.join('app', 'Other', 'Messages.fr.resx'),
+            path.join('app', 'Other', 'Orphan.de.resx'),
+            path.join('app', 'Other', 'Messages.resx'),
+            path.join('app', 'notes.txt'),
+        ]);
+        assert.deepStrictEqual(sets.map(set => [set.basePath, set.baseName, [...set.cultures]]), [
+            [path.join('app', 'Other', 'Messages.resx'), 'Messages', [['fr', path.join('app', 'Other', 'Messages.fr.resx')]]],
+            [path.join('app', 'Resources', 'Form1.Designer.resx'), 'Form1.Designer', []],
+            [path.join('app', 'Resources', 'Messages.resx'), 'Messages', [
+                ['fr', path.join('app', 'Resources', 'Messages.fr.resx')],
+                ['de', path.join('app', 'resources', 'messages.de.resx')],
+            ]],
+        ]);
+    });
+});
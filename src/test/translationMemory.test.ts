@@ -0,0 +1,39 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { TranslationMemory, textSimilarity } from '../translationMemory';
+import { createResx } from './fixtures';
+
+describe('TranslationMemory', () => {
+    const memory = new TranslationMemory();
+    memory.add('Messages', {
+        default: createResx({ Save: 'Save', SaveAll: 'Save all files', Cancel: 'Cancel' }),
+        'fr-FR': createResx({ Save: 'Enregistrer', SaveAll: 'Enregistrer tous les fichiers', Cancel: 'Annuler' }),
+    });
+    memory.add('Dialogs', {
+        default: createResx([{ name: 'Ok', value: 'Save' }, { name: 'Width', value: '10', type: 'System.Int32' }]),
+        'fr-FR': createResx([{ name: 'Ok', value: 'Sauvegarder' }, { name: 'Width', value: '12', type: 'System.Int32' }]),
+    });
+
+    it('measures similarity ignoring case and whitespace', () => {
+        assert.strictEqual(textSimilarity('Save  All', 'save all'), 1);
+        assert.strictEqual(textSimilarity('abcd', 'abcx'), 0.75);
+    });
+
+    it('looks up exact and fuzzy matches, best first, excluding the cell itself', () => {
+        const matches = memory.lookup('Save all file', 'fr-fr', { exclude: { set: 'Messages', key: 'Save' } });
+        assert.deepStrictEqual(matches.map(m => [m.target, Math.round(m.similarity * 100)]), [['Enregistrer tous les fichiers', 93]]);
+        assert.deepStrictEqual(memory.lookup('Save', 'fr-FR', { limit: 1 }).map(m => m.similarity), [1]);
+        assert.deepStrictEqual(memory.lookup('10', 'fr-FR'), []);
+    });
+
+    it('reports sources translated more than one way', () => {
+        assert.deepStrictEqual(memory.findInconsistencies(), [{
+            source: 'Save',
+            culture: 'fr-FR',
+            translations: [
+                { target: 'Enregistrer', occurrences: [{ set: 'Messages', key: 'Save' }] },
+                { target: 'Sauvegarder', occurrences: [{ set: 'Dialogs', key: 'Ok' }] },
+            ],
+        }]);
+    });
+});
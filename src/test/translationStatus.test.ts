@@ -0,0 +1,30 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { getCellState, getCultureCompletion } from '../translationStatus';
+import { createResx } from './fixtures';
+
+describe('translationStatus', () => {
+    const resxData = {
+        default: createResx([
+            { name: 'Save', value: 'Save' },
+            { name: 'Open', value: 'Open' },
+            { name: 'Close', value: 'Close' },
+            { name: 'Blank', value: '' },
+            { name: 'Icon', value: 'icon.png;System.Byte[], mscorlib', type: 'System.Resources.ResXFileRef, System.Windows.Forms' },
+        ]),
+        fr: createResx({ Save: 'Enregistrer', Open: 'Open', Close: '' }),
+    };
+
+    it('classifies each culture cell against the default value', () => {
+        const state = (key: string) => getCellState(resxData.default.get(key), resxData.fr.get(key));
+        assert.deepStrictEqual(['Save', 'Open', 'Close', 'Blank'].map(state), ['translated', 'same', 'empty', 'missing']);
+        assert.strictEqual(getCellState(resxData.default.get('Save'), resxData.default.get('Save')), 'translated');
+        assert.strictEqual(getCellState(undefined, resxData.fr.get('Save')), 'translated');
+    });
+
+    it('counts completion over the default string keys only', () => {
+        assert.deepStrictEqual(getCultureCompletion(resxData, 'fr'), { translated: 1, total: 4, percent: 25 });
+        assert.deepStrictEqual(getCultureCompletion(resxData, 'de'), { translated: 0, total: 4, percent: 0 });
+        assert.deepStrictEqual(getCultureCompletion({ fr: resxData.fr }, 'fr'), { translated: 0, total: 0, percent: 100 });
+    });
+});
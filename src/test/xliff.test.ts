@@ -0,0 +1,102 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { XliffFormatError, XliffVersion, exportXliff, mergeXliff, parseXliff } from '../xliff';
+import { createResx } from './fixtures';
+
+const resxData = {
+    default: createResx([
+        { name: 'Hello', value: 'Hello <b>{0}</b>', comment: 'greeting' },
+        { name: 'Bye', value: 'Bye' },
+        { name: 'Width', value: '10', type: 'System.Int32, mscorlib' },
+    ]),
+    de: createResx({ Hello: 'Hallo <b>{0}</b>' }),
+};
+
+const exportFor = (version: XliffVersion) => exportXliff(resxData, {
+    version,
+    sourceCulture: 'default',
+    targetCulture: 'de',
+    sourceLanguage: 'en',
+    targetLanguage: 'de',
+    original: 'Messages.resx',
+});
+
+describe('XLIFF', () => {
+    for (const version of ['1.2', '2.0'] as XliffVersion[]) {
+        it(`round-trips string resources through XLIFF ${version}`, () => {
+            const xliff = parseXliff(exportFor(version));
+            assert.strictEqual(xliff.version, version);
+            assert.strictEqual(xliff.sourceLanguage, 'en');
+            assert.strictEqual(xliff.targetLanguage, 'de');
+            assert.deepStrictEqual(xliff.units, [
+                { key: 'Hello', source: 'Hello <b>{0}</b>', target: 'Hallo <b>{0}</b>', notes: ['greeting'] },
+                { key: 'Bye', source: 'Bye', target: undefined, notes: [] },
+            ]);
+            assert.deepStrictEqual(mergeXliff(resxData, 'default', 'de', xliff), { updates: [], sourceChanged: [], unknownKeys: [] });
+        });
+    }
+
+    it('joins the segments of an XLIFF 2.0 unit', () => {
+        const xliff = parseXliff([
+            '<xliff version="2.0" srcLang="en" trgLang="de"><file id="f">',
+            '<unit id="u1" name="Bye"><segment><source>By</source><target>Tsch</target></segment>',
+            '<ignorable><source>e</source><target>üss</target></ignorable></unit>',
+            '</file></xliff>',
+        ].join(''));
+        assert.deepStrictEqual(xliff.units, [{ key: 'Bye', source: 'Bye', target: 'Tschüss', notes: [] }]);
+    });
+
+    it('flattens inline elements to the text they stand for', () => {
+        const xliff12 = parseXliff([
+            '<xliff version="1.2"><file source-language="en"><body>',
+            '<trans-unit id="Hello"><source>Hello <g id="1">&lt;b&gt;{0}</g> <x id="2" equiv-text="{1}"/></source>',
+            '<target>Hallo <bpt id="1">&lt;b&gt;</bpt><ph id="2">{0}</ph><ept id="1">&lt;/b&gt;</ept> <mrk mtype="x">{1}</mrk></target></trans-unit>',
+            '</body></file></xliff>',
+        ].join(''));
+        assert.deepStrictEqual(xliff12.units[0], { key: 'Hello', source: 'Hello <b>{0} {1}', target: 'Hallo <b>{0}</b> {1}', notes: [] });
+
+        const xliff20 = parseXliff([
+            '<xliff version="2.0" srcLang="en"><file id="f"><unit id="Hello">',
+            '<originalData><data id="d1">&lt;b&gt;</data><data id="d2">&lt;/b&gt;</data><data id="d3">{0}</data></originalData>',
+            '<segment><source><pc id="1" dataRefStart="d1" dataRefEnd="d2">Hi<cp hex="00A0"/><ph id="2" dataRef="d3"/></pc></source>',
+            '<target><sm id="m"/>Hallo <ph id="2" dataRef="d3"/><em startRef="m"/></target></segment>',
+            '</unit></file></xliff>',
+        ].join(''));
+        assert.deepStrictEqual(xliff20.units[0], { key: 'Hello', source: '<b>Hi\u00a0{0}</b>', target: 'Hallo {0}', notes: [] });
+    });
+
+    it('rejects inline codes whose original text is unknown', () => {
+        assert.throws(() => parseXliff([
+            '<xliff version="2.0" srcLang="en"><file id="f"><unit id="Hello">',
+            '<segment><source>Hello <ph id="1"/></source></segment>',
+            '</unit></file></xliff>',
+        ].join('')), /Unit "Hello" contains an inline <ph> element without its original text/);
+        assert.throws(() => parseXliff('<xliff version="1.2"><file><body><trans-unit id="A"><source><b>A</b></source></trans-unit></body></file></xliff>'), XliffFormatError);
+    });
+
+    it('reports updates, edited sources and unknown keys on merge', () => {
+        const xliff = parseXliff([
+            '<xliff version="1.2"><file source-language="en"><body><group>',
+            '<trans-unit id="1" resname="Bye"><source>Bye</source><target>Tschüss</target></trans-unit>',
+            '<trans-unit id="2" resname="Hello"><source>Hello {0}</source><target>Hallo {0}</target></trans-unit>',
+            '<trans-unit id="3" resname="Width"><source>10</source><target>12</target></trans-unit>',
+            '<trans-unit id="Gone"><source>x</source><target>y</target></trans-unit>',
+            '<trans-unit id="4" resname="Untranslated"><source>x</source></trans-unit>',
+            '</group></body></file></xliff>',
+        ].join(''));
+        assert.deepStrictEqual(mergeXliff(resxData, 'default', 'de', xliff), {
+            updates: [
+                { key: 'Bye', before: undefined, value: 'Tschüss' },
+                { key: 'Hello', before: 'Hallo <b>{0}</b>', value: 'Hallo {0}' },
+            ],
+            sourceChanged: [{ key: 'Hello', exported: 'Hello {0}', current: 'Hello <b>{0}</b>' }],
+            unknownKeys: ['Width', 'Gone'],
+        });
+    });
+
+    it('rejects files that are not XLIFF 1.x or 2.x', () => {
+        assert.throws(() => parseXliff('<root />'), XliffFormatError);
+        assert.throws(() => parseXliff('<xliff version="3.0" />'), /Unsupported XLIFF version "3.0"/);
+        assert.throws(() => parseXliff('<xliff version="1.2"><file>'), XliffFormatError);
+    });
+});
@@ -0,0 +1,39 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { decodeEntities, decodeText, encodeText, getAttribute, getChild, parseXml } from '../xml';
+
+describe('xml', () => {
+    it('decodes predefined entities and character references', () => {
+        assert.strictEqual(decodeEntities('&lt;a&gt; &amp; &quot;&apos; &#65;&#x1F600; &unknown;'), '<a> & "\' A😀 &unknown;');
+    });
+
+    it('rejects character references beyond U+10FFFF as invalid XML', () => {
+        assert.throws(() => decodeEntities('&#x110000;'), /Invalid XML: character reference &#x110000; is out of range/);
+        assert.throws(() => decodeEntities('&#99999999;'), /Invalid XML/);
+    });
+
+    it('decodes CDATA, drops comments and normalizes line endings', () => {
+        assert.strictEqual(decodeText('a&amp;<![CDATA[<b>&amp;]]><!-- note -->\r\nc\rd'), 'a&<b>&amp;\nc\nd');
+    });
+
+    it('encodes markup and line endings', () => {
+        assert.strictEqual(encodeText('<a> & b\nc', '\r\n'), '&lt;a&gt; &amp; b\r\nc');
+    });
+
+    it('records elements, attributes and offsets', () => {
+        const text = '<?xml version="1.0"?><!-- c --><root a="1 &amp; 2"><child/><other>x</other></root>';
+        const [root] = parseXml(text);
+        assert.strictEqual(root.name, 'root');
+        assert.strictEqual(getAttribute(root, 'a'), '1 & 2');
+        assert.strictEqual(getChild(root, 'child')?.selfClosing, true);
+        const other = getChild(root, 'other')!;
+        assert.strictEqual(text.slice(other.openEnd, other.closeStart), 'x');
+        assert.strictEqual(text.slice(root.start, root.end), text.slice(text.indexOf('<root')));
+    });
+
+    it('reports malformed documents with an offset', () => {
+        assert.throws(() => parseXml('<root><a></root>'), /Invalid XML at offset \d+/);
+        assert.throws(() => parseXml('<root a=1></root>'), /unquoted attribute "a"/);
+        assert.throws(() => parseXml('<root>'), /unclosed <root>/);
+    });
+});
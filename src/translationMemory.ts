@@ -0,0 +1,152 @@
+import { ResxDocument, isStringEntry } from './resxFile';
+
+/** Where a translation is used: the resx set (as the caller identifies it) and the key. */
+export interface MemoryOccurrence {
+    set: string;
+    key: string;
+}
+
+export interface MemoryMatch {
+    /** The default value that was translated, which may only be similar to the one looked up. */
+    source: string;
+    target: string;
+    /** 1 for an identical source, down to the configured minimum for fuzzy matches. */
+    similarity: number;
+    occurrences: MemoryOccurrence[];
+}
+
+/** A default value translated more than one way into the same culture. */
+export interface Inconsistency {
+    source: string;
+    culture: string;
+    translations: { target: string; occurrences: MemoryOccurrence[] }[];
+}
+
+export interface LookupOptions {
+    minSimilarity?: number;
+    limit?: number;
+    /** The cell being edited, so its own value is not suggested back. */
+    exclude?: MemoryOccurrence;
+}
+
+/** Sources longer than this are only matched exactly; edit distance is quadratic in the length. */
+const MAX_FUZZY_LENGTH = 500;
+
+function normalize(text: string): string {
+    return text.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+/** Similarity of two texts from 0 to 1, ignoring case and differences in whitespace. */
+export function textSimilarity(a: string, b: string): number {
+    const left = normalize(a);
+    const right = normalize(b);
+    const length = Math.max(left.length, right.length);
+    return length === 0 ? 1 : 1 - editDistance(left, right) / length;
+}
+
+/**
+ * Every translation in a set of resx sets, indexed by culture and default value. Only string resources
+ * with a non-empty default value and a non-empty translation are remembered.
+ */
+export class TranslationMemory {
+    /** Culture (lower case) to default value to translation to the places it is used. */
+    private readonly units = new Map<string, Map<string, Map<string, MemoryOccurrence[]>>>();
+    /** Culture names as the files spell them, by lower case name. */
+    private readonly cultureNames = new Map<string, string>();
+
+    /** Adds the translations of one resx set, identified by `set` in the occurrences it produces. */
+    public add(set: string, resxData: ResxDocument): void {
+        const defaultFile = resxData['default'];
+        if (!defaultFile) {
+            return;
+        }
+        for (const [culture, file] of Object.entries(resxData)) {
+            if (culture === 'default') {
+                continue;
+            }
+            const sources = this.units.get(culture.toLowerCase()) ?? new Map<string, Map<string, MemoryOccurrence[]>>();
+            this.units.set(culture.toLowerCase(), sources);
+            if (!this.cultureNames.has(culture.toLowerCase())) {
+                this.cultureNames.set(culture.toLowerCase(), culture);
+            }
+            for (const key of file.keys()) {
+                const source = defaultFile.get(key);
+                const target = file.get(key);
+                if (!source || !target || !isStringEntry(source) || !source.value.trim() || !target.value.trim()) {
+                    continue;
+                }
+                const targets = sources.get(source.value) ?? new Map<string, MemoryOccurrence[]>();
+                sources.set(source.value, targets);
+                targets.set(target.value, [...(targets.get(target.value) ?? []), { set, key }]);
+            }
+        }
+    }
+
+    /**
+     * Translations into `culture` of default values identical or similar to `source`, best first: by
+     * similarity, then by how often the translation is used.
+     */
+    public lookup(source: string, culture: string, options: LookupOptions = {}): MemoryMatch[] {
+        const minSimilarity = options.minSimilarity ?? 0.75;
+        const exclude = options.exclude;
+        const matches: MemoryMatch[] = [];
+        const normalizedLength = normalize(source).length;
+
+        for (const [candidate, targets] of this.units.get(culture.toLowerCase()) ?? []) {
+            let similarity: number;
+            if (candidate === source) {
+                similarity = 1;
+            } else {
+                const candidateLength = normalize(candidate).length;
+                // Edit distance is at least the difference in length, so most candidates are ruled out cheaply.
+                if (Math.min(normalizedLength, candidateLength) / Math.max(normalizedLength, candidateLength, 1) < minSimilarity
+                    || Math.max(normalizedLength, candidateLength) > MAX_FUZZY_LENGTH) {
+                    continue;
+                }
+                similarity = textSimilarity(source, candidate);
+                if (similarity < minSimilarity) {
+                    continue;
+                }
+            }
+            for (const [target, occurrences] of targets) {
+                const others = exclude ? occurrences.filter(o => o.set !== exclude.set || o.key !== exclude.key) : occurrences;
+                if (others.length > 0) {
+                    matches.push({ source: candidate, target, similarity, occurrences: others });
+                }
+            }
+        }
+
+        matches.sort((a, b) => b.similarity - a.similarity || b.occurrences.length - a.occurrences.length);
+        return options.limit === undefined ? matches : matches.slice(0, options.limit);
+    }
+
+    /** Default values with more than one distinct translation in the same culture, most used first. */
+    public findInconsistencies(): Inconsistency[] {
+        const inconsistencies: Inconsistency[] = [];
+        for (const [culture, sources] of this.units) {
+            for (const [source, targets] of sources) {
+                if (targets.size < 2) {
+                    continue;
+                }
+                const translations = [...targets]
+                    .map(([target, occurrences]) => ({ target, occurrences }))
+                    .sort((a, b) => b.occurrences.length - a.occurrences.length);
+                inconsistencies.push({ source, culture: this.cultureNames.get(culture) ?? culture, translations });
+            }
+        }
+        const uses = (i: Inconsistency) => i.translations.reduce((sum, t) => sum + t.occurrences.length, 0);
+        return inconsistencies.sort((a, b) => uses(b) - uses(a) || a.source.localeCompare(b.source));
+    }
+}
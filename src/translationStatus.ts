@@ -0,0 +1,49 @@
+import { ResxDocument, ResxEntry, isStringEntry } from './resxFile';
+
+/**
+ * State of one culture cell relative to the default culture:
+ * - `missing`: the culture file has no `<data>` node for the key
+ * - `empty`: the node exists but its value is empty
+ * - `same`: the value is identical to the (non-empty) default value, i.e. probably never translated
+ * - `translated`: anything else
+ */
+export type CellState = 'missing' | 'empty' | 'same' | 'translated';
+
+export interface CultureCompletion {
+    translated: number;
+    total: number;
+    percent: number;
+}
+
+export function getCellState(defaultEntry: ResxEntry | undefined, entry: ResxEntry | undefined): CellState {
+    if (!entry) {
+        return 'missing';
+    }
+    if (!entry.value) {
+        return 'empty';
+    }
+    if (defaultEntry && defaultEntry.value && defaultEntry !== entry && defaultEntry.value === entry.value) {
+        return 'same';
+    }
+    return 'translated';
+}
+
+/** Share of the default culture's string keys that `language` has translated; other resources are rarely localized. */
+export function getCultureCompletion(resxData: ResxDocument, language: string): CultureCompletion {
+    const defaultFile = resxData['default'];
+    const file = resxData[language];
+    const keys = defaultFile ? defaultFile.keys().filter(key => isStringEntry(defaultFile.get(key)!)) : [];
+
+    let translated = 0;
+    for (const key of keys) {
+        if (getCellState(defaultFile.get(key), file?.get(key)) === 'translated') {
+            translated++;
+        }
+    }
+
+    return {
+        translated,
+        total: keys.length,
+        percent: keys.length === 0 ? 100 : Math.floor((translated / keys.length) * 100),
+    };
+}
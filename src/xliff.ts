@@ -0,0 +1,259 @@
+import { ResxDocument, isStringEntry } from './resxFile';
+import { XmlElement, decodeText, encodeAttribute, encodeText, getAttribute, getChild, parseXml } from './xml';
+
+export type XliffVersion = '1.2' | '2.0';
+
+export interface XliffExportOptions {
+    version: XliffVersion;
+    /** Cultures of the resx set (`'default'` for the neutral file) used for source and target text. */
+    sourceCulture: string;
+    targetCulture: string;
+    /** BCP 47 tags written to the file; the neutral file has no culture of its own so the caller supplies it. */
+    sourceLanguage: string;
+    targetLanguage: string;
+    /** Name of the resx file the units came from, e.g. `Messages.resx`. */
+    original: string;
+}
+
+export interface XliffUnit {
+    /** The resource key: `resname`/`name` when present, otherwise the unit id. */
+    key: string;
+    source: string;
+    target?: string;
+    notes: string[];
+}
+
+export interface XliffDocument {
+    version: XliffVersion;
+    sourceLanguage: string;
+    targetLanguage?: string;
+    units: XliffUnit[];
+}
+
+export interface XliffMergeResult {
+    /** Translations that differ from the target file, in document order. */
+    updates: { key: string; before?: string; value: string }[];
+    /** Units translated from a source text that has since been edited in the resx set. */
+    sourceChanged: { key: string; exported: string; current: string }[];
+    /** Unit keys that no longer exist in the resx set. */
+    unknownKeys: string[];
+}
+
+export class XliffFormatError extends Error {}
+
+/** Serializes every string resource of `sourceCulture` as a translation unit; comments become notes. */
+export function exportXliff(resxData: ResxDocument, options: XliffExportOptions): string {
+    const sourceFile = resxData[options.sourceCulture];
+    const targetFile = resxData[options.targetCulture];
+    const defaultFile = resxData['default'];
+    const text = (value: string) => encodeText(value, '\n');
+    const attr = encodeAttribute;
+    const lines = ['<?xml version="1.0" encoding="utf-8"?>'];
+
+    const units = (sourceFile?.entries ?? [])
+        .filter(isStringEntry)
+        .filter((entry, index, all) => all.findIndex(e => e.name === entry.name) === index)
+        .map(entry => ({
+            key: entry.name,
+            source: sourceFile.get(entry.name)!.value,
+            target: targetFile?.get(entry.name)?.value || undefined,
+            note: defaultFile?.get(entry.name)?.comment || targetFile?.get(entry.name)?.comment,
+        }));
+
+    if (options.version === '1.2') {
+        lines.push('<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">');
+        lines.push(`  <file source-language="${attr(options.sourceLanguage)}" target-language="${attr(options.targetLanguage)}" datatype="resx" original="${attr(options.original)}">`);
+        lines.push('    <body>');
+        for (const unit of units) {
+            lines.push(`      <trans-unit id="${attr(unit.key)}" resname="${attr(unit.key)}" xml:space="preserve">`);
+            lines.push(`        <source>${text(unit.source)}</source>`);
+            if (unit.target !== undefined) {
+                lines.push(`        <target state="translated">${text(unit.target)}</target>`);
+            }
+            if (unit.note) {
+                lines.push(`        <note>${text(unit.note)}</note>`);
+            }
+            lines.push('      </trans-unit>');
+        }
+        lines.push('    </body>');
+        lines.push('  </file>');
+    } else {
+        lines.push(`<xliff version="2.0" xmlns="urn:oasis:names:tc:xliff:document:2.0" srcLang="${attr(options.sourceLanguage)}" trgLang="${attr(options.targetLanguage)}">`);
+        lines.push(`  <file id="f1" original="${attr(options.original)}">`);
+        for (const unit of units) {
+            lines.push(`    <unit id="${attr(unit.key)}" name="${attr(unit.key)}">`);
+            if (unit.note) {
+                lines.push(`      <notes><note>${text(unit.note)}</note></notes>`);
+            }
+            lines.push(`      <segment state="${unit.target === undefined ? 'initial' : 'translated'}">`);
+            lines.push(`        <source xml:space="preserve">${text(unit.source)}</source>`);
+            if (unit.target !== undefined) {
+                lines.push(`        <target xml:space="preserve">${text(unit.target)}</target>`);
+            }
+            lines.push('      </segment>');
+            lines.push('    </unit>');
+        }
+        lines.push('  </file>');
+    }
+
+    lines.push('</xliff>');
+    return lines.join('\n') + '\n';
+}
+
+/** Inline elements whose content is part of the text; for 1.2 `<ph>`, `<bpt>`, `<ept>` and `<it>` it is the original code. */
+const INLINE_CONTENT = new Set(['g', 'mrk', 'pc', 'ph', 'bpt', 'ept', 'it', 'sub']);
+/** Empty inline codes that stand for original text kept elsewhere. */
+const INLINE_CODES = new Set(['x', 'bx', 'ex', 'ph', 'sc', 'ec']);
+
+function descendants(element: XmlElement, name: string): XmlElement[] {
+    return element.children.flatMap(c => c.name === name ? [c] : descendants(c, name));
+}
+
+/**
+ * Decodes the content of `element`, replacing inline elements with the text they stand for so vendor markup
+ * never ends up in a resource value. Throws for an inline code of `unit` whose original text is unknown.
+ */
+function flattenInline(text: string, element: XmlElement, unit: XmlElement, key: string): string {
+    let result = '';
+    let pos = element.openEnd;
+    for (const child of element.children) {
+        result += decodeText(text.slice(pos, child.start)) + inlineText(text, child, unit, key);
+        pos = child.end;
+    }
+    return result + decodeText(text.slice(pos, element.closeStart));
+}
+
+function inlineText(text: string, element: XmlElement, unit: XmlElement, key: string): string {
+    const unknown = () => new XliffFormatError(`Unit "${key}" contains an inline <${element.name}> element without its original text.`);
+    // XLIFF 2.0 codes refer to their original text in the unit's <originalData>.
+    const original = (ref: string | undefined) => {
+        if (ref === undefined) {
+            return '';
+        }
+        const data = descendants(unit, 'data').find(d => getAttribute(d, 'id') === ref);
+        if (!data) {
+            throw unknown();
+        }
+        return flattenInline(text, data, unit, key);
+    };
+
+    if (element.name === 'cp') {
+        const code = parseInt(getAttribute(element, 'hex') ?? '', 16);
+        if (!(code >= 0 && code <= 0x10ffff)) {
+            throw unknown();
+        }
+        return String.fromCodePoint(code);
+    }
+    if (element.name === 'sm' || element.name === 'em') {
+        return '';
+    }
+    if (element.selfClosing && INLINE_CODES.has(element.name)) {
+        const ref = getAttribute(element, 'dataRef');
+        const equiv = getAttribute(element, 'equiv-text') ?? getAttribute(element, 'equiv');
+        if (ref === undefined && equiv === undefined) {
+            throw unknown();
+        }
+        return ref !== undefined ? original(ref) : equiv!;
+    }
+    if (INLINE_CONTENT.has(element.name)) {
+        return original(getAttribute(element, 'dataRefStart'))
+            + flattenInline(text, element, unit, key)
+            + original(getAttribute(element, 'dataRefEnd'));
+    }
+    throw unknown();
+}
+
+/** Reads the units of an XLIFF 1.2 or 2.0 file, including units nested in groups. */
+export function parseXliff(text: string): XliffDocument {
+    let roots: XmlElement[];
+    try {
+        roots = parseXml(text);
+    } catch (error) {
+        throw new XliffFormatError(error instanceof Error ? error.message : String(error));
+    }
+    const root = roots.find(e => e.name === 'xliff');
+    if (!root) {
+        throw new XliffFormatError('Missing <xliff> root element.');
+    }
+
+    const content = (element: XmlElement | undefined, unit: XmlElement, key: string) =>
+        element && !element.selfClosing ? flattenInline(text, element, unit, key) : undefined;
+
+    const version = getAttribute(root, 'version');
+    if (version?.startsWith('1.')) {
+        const file = getChild(root, 'file');
+        return {
+            version: '1.2',
+            sourceLanguage: file && getAttribute(file, 'source-language') || '',
+            targetLanguage: file && getAttribute(file, 'target-language'),
+            units: descendants(root, 'trans-unit').map(unit => {
+                const key = getAttribute(unit, 'resname') ?? getAttribute(unit, 'id') ?? '';
+                return {
+                    key,
+                    source: content(getChild(unit, 'source'), unit, key) ?? '',
+                    target: content(getChild(unit, 'target'), unit, key),
+                    notes: descendants(unit, 'note').map(note => content(note, unit, key) ?? ''),
+                };
+            }),
+        };
+    }
+    if (version?.startsWith('2.')) {
+        return {
+            version: '2.0',
+            sourceLanguage: getAttribute(root, 'srcLang') ?? '',
+            targetLanguage: getAttribute(root, 'trgLang'),
+            units: descendants(root, 'unit').map(unit => {
+                // A unit may be split into several segments; join them back into one value.
+                const key = getAttribute(unit, 'name') ?? getAttribute(unit, 'id') ?? '';
+                const parts = unit.children.filter(c => c.name === 'segment' || c.name === 'ignorable');
+                const targets = parts.map(part => content(getChild(part, 'target'), unit, key));
+                return {
+                    key,
+                    source: parts.map(part => content(getChild(part, 'source'), unit, key) ?? '').join(''),
+                    target: targets.every(t => t === undefined) ? undefined : targets.map(t => t ?? '').join(''),
+                    notes: descendants(unit, 'note').map(note => content(note, unit, key) ?? ''),
+                };
+            }),
+        };
+    }
+    throw new XliffFormatError(`Unsupported XLIFF version "${version ?? ''}".`);
+}
+
+/**
+ * Works out what merging `xliff` into `targetCulture` would change. Units without a translation are
+ * ignored; units whose source no longer matches `sourceCulture` are still listed in `updates` and also
+ * reported in `sourceChanged` so the caller can decide whether to keep them.
+ */
+export function mergeXliff(
+    resxData: ResxDocument,
+    sourceCulture: string,
+    targetCulture: string,
+    xliff: XliffDocument
+): XliffMergeResult {
+    const result: XliffMergeResult = { updates: [], sourceChanged: [], unknownKeys: [] };
+    const defaultFile = resxData['default'];
+    const sourceFile = resxData[sourceCulture];
+    const targetFile = resxData[targetCulture];
+
+    for (const unit of xliff.units) {
+        if (!unit.target) {
+            continue;
+        }
+        const entry = defaultFile?.get(unit.key);
+        if (!entry || !isStringEntry(entry)) {
+            result.unknownKeys.push(unit.key);
+            continue;
+        }
+
+        const current = sourceFile?.get(unit.key)?.value ?? '';
+        if (current !== unit.source) {
+            result.sourceChanged.push({ key: unit.key, exported: unit.source, current });
+        }
+        const before = targetFile?.get(unit.key)?.value;
+        if (before !== unit.target) {
+            result.updates.push({ key: unit.key, before, value: unit.target });
+        }
+    }
+
+    return result;
+}
@@ -0,0 +1,234 @@
+export interface XmlAttribute {
+    name: string;
+    value: string;
+    /** Offsets of the raw attribute value, between the quotes. */
+    valueStart: number;
+    valueEnd: number;
+}
+
+export interface XmlElement {
+    name: string;
+    start: number;
+    /** Offset just after the `>` of the start tag. */
+    openEnd: number;
+    /** Offset of the `</` of the end tag; equals `openEnd` for self-closing elements. */
+    closeStart: number;
+    end: number;
+    selfClosing: boolean;
+    attributes: XmlAttribute[];
+    children: XmlElement[];
+}
+
+export function isNameChar(ch: string | undefined): boolean {
+    return ch !== undefined && ((ch >= 'a' && ch <= 'z') || (ch >= 'A' && ch <= 'Z') || (ch >= '0' && ch <= '9')
+        || ch === '_' || ch === ':' || ch === '.' || ch === '-');
+}
+
+export function isWhitespace(ch: string | undefined): boolean {
+    return ch === ' ' || ch === '\t' || ch === '\n' || ch === '\r';
+}
+
+/** Decodes the predefined entities and character references; throws for a reference beyond U+10FFFF. */
+export function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9A-Fa-f]+|#[0-9]+|lt|gt|amp|quot|apos);/g, (_match, entity: string) => {
+        switch (entity) {
+            case 'lt': return '<';
+            case 'gt': return '>';
+            case 'amp': return '&';
+            case 'quot': return '"';
+            case 'apos': return '\'';
+        }
+        const code = entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+        if (code > 0x10ffff) {
+            throw new Error(`Invalid XML: character reference &${entity}; is out of range`);
+        }
+        return String.fromCodePoint(code);
+    });
+}
+
+/** Decodes the character data of an element: entities, CDATA sections and line-ending normalization. */
+export function decodeText(raw: string): string {
+    let result = '';
+    let pos = 0;
+    while (pos < raw.length) {
+        const cdata = raw.indexOf('<![CDATA[', pos);
+        const comment = raw.indexOf('<!--', pos);
+        const next = [cdata, comment].filter(i => i >= 0).sort((a, b) => a - b)[0];
+        if (next === undefined) {
+            result += decodeEntities(raw.slice(pos));
+            break;
+        }
+        result += decodeEntities(raw.slice(pos, next));
+        if (next === cdata) {
+            const close = raw.indexOf(']]>', next);
+            result += raw.slice(next + 9, close < 0 ? raw.length : close);
+            pos = close < 0 ? raw.length : close + 3;
+        } else {
+            const close = raw.indexOf('-->', next);
+            pos = close < 0 ? raw.length : close + 3;
+        }
+    }
+    return result.replace(/\r\n?/g, '\n');
+}
+
+export function encodeText(text: string, newline: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/\r\n?|\n/g, newline);
+}
+
+export function encodeAttribute(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+/**
+ * Minimal, position-preserving XML scanner. It only records elements (with offsets) and skips
+ * everything else, which is all the resx model needs to splice edits into the original text
+ * and all the XLIFF reader needs to pull out units.
+ */
+export function parseXml(text: string): XmlElement[] {
+    const roots: XmlElement[] = [];
+    const stack: XmlElement[] = [];
+    let pos = 0;
+
+    const fail = (message: string, at: number): never => {
+        throw new Error(`Invalid XML at offset ${at}: ${message}`);
+    };
+
+    const skipPast = (marker: string, from: number): number => {
+        const index = text.indexOf(marker, from);
+        if (index < 0) {
+            fail(`missing "${marker}"`, from);
+        }
+        return index + marker.length;
+    };
+
+    while (pos < text.length) {
+        const lt = text.indexOf('<', pos);
+        if (lt < 0) {
+            break;
+        }
+
+        if (text.startsWith('<!--', lt)) {
+            pos = skipPast('-->', lt + 4);
+        } else if (text.startsWith('<![CDATA[', lt)) {
+            pos = skipPast(']]>', lt + 9);
+        } else if (text.startsWith('<?', lt)) {
+            pos = skipPast('?>', lt + 2);
+        } else if (text.startsWith('<!', lt)) {
+            pos = skipPast('>', lt + 2);
+        } else if (text.startsWith('</', lt)) {
+            const gt = skipPast('>', lt + 2);
+            const name = text.slice(lt + 2, gt - 1).trim();
+            const open = stack.pop();
+            if (!open || open.name !== name) {
+                fail(`unexpected </${name}>`, lt);
+            }
+            open!.closeStart = lt;
+            open!.end = gt;
+            pos = gt;
+        } else {
+            let cursor = lt + 1;
+            while (isNameChar(text[cursor])) {
+                cursor++;
+            }
+            const element: XmlElement = {
+                name: text.slice(lt + 1, cursor),
+                start: lt,
+                openEnd: -1,
+                closeStart: -1,
+                end: -1,
+                selfClosing: false,
+                attributes: [],
+                children: [],
+            };
+            if (!element.name) {
+                fail('expected element name', lt);
+            }
+
+            while (element.openEnd < 0) {
+                while (isWhitespace(text[cursor])) {
+                    cursor++;
+                }
+                if (cursor >= text.length) {
+                    fail(`unterminated <${element.name}>`, lt);
+                }
+                if (text.startsWith('/>', cursor)) {
+                    element.selfClosing = true;
+                    element.openEnd = element.closeStart = element.end = cursor + 2;
+                } else if (text[cursor] === '>') {
+                    element.openEnd = cursor + 1;
+                } else {
+                    const nameStart = cursor;
+                    while (isNameChar(text[cursor])) {
+                        cursor++;
+                    }
+                    const attrName = text.slice(nameStart, cursor);
+                    while (isWhitespace(text[cursor])) {
+                        cursor++;
+                    }
+                    if (!attrName || text[cursor] !== '=') {
+                        fail(`malformed attribute in <${element.name}>`, nameStart);
+                    }
+                    cursor++;
+                    while (isWhitespace(text[cursor])) {
+                        cursor++;
+                    }
+                    const quote = text[cursor];
+                    if (quote !== '"' && quote !== '\'') {
+                        fail(`unquoted attribute "${attrName}"`, cursor);
+                    }
+                    const valueEnd = text.indexOf(quote, cursor + 1);
+                    if (valueEnd < 0) {
+                        fail(`unterminated attribute "${attrName}"`, cursor);
+                    }
+                    element.attributes.push({
+                        name: attrName,
+                        value: decodeEntities(text.slice(cursor + 1, valueEnd)),
+                        valueStart: cursor + 1,
+                        valueEnd,
+                    });
+                    cursor = valueEnd + 1;
+                }
+            }
+
+            (stack.length > 0 ? stack[stack.length - 1].children : roots).push(element);
+            if (!element.selfClosing) {
+                stack.push(element);
+            }
+            pos = element.openEnd;
+        }
+    }
+
+    if (stack.length > 0) {
+        fail(`unclosed <${stack[stack.length - 1].name}>`, stack[stack.length - 1].start);
+    }
+    return roots;
+}
+
+/** Copy of `element` with every offset shifted by `-by`. */
+export function rebase(element: XmlElement, by: number): XmlElement {
+    return {
+        ...element,
+        start: element.start - by,
+        openEnd: element.openEnd - by,
+        closeStart: element.closeStart - by,
+        end: element.end - by,
+        attributes: element.attributes.map(a => ({ ...a, valueStart: a.valueStart - by, valueEnd: a.valueEnd - by })),
+        children: element.children.map(c => rebase(c, by)),
+    };
+}
+
+export function getAttribute(element: XmlElement, name: string): string | undefined {
+    return element.attributes.find(a => a.name === name)?.value;
+}
+
+export function getChild(element: XmlElement, name: string): XmlElement | undefined {
+    return element.children.find(c => c.name === name);
+}